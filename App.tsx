@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef, useCallback } from 'react';
 import {
   AreaChart,
   Area,
@@ -11,7 +11,8 @@ import {
   ComposedChart,
   Line,
   Brush,
-  ReferenceDot
+  ReferenceDot,
+  ReferenceArea
 } from 'recharts';
 import {
   Calculator,
@@ -28,50 +29,194 @@ import {
   BookOpen,
   Sigma,
   MousePointer2,
-  Eye
+  Eye,
+  Dices,
+  Play,
+  LoaderCircle,
+  FileText
 } from 'lucide-react';
-
-// --- MATH UTILITIES ---
-
-/**
- * Standard Normal Cumulative Distribution Function (CDF)
- */
-function cumulativeDistribution(x: number): number {
-  const t = 1 / (1 + 0.2316419 * Math.abs(x));
-  const d = 0.39894228040 * Math.exp(-x * x / 2);
-  const p = d * t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
-  if (x > 0) return 1 - p;
-  return p;
-}
+import { Candle, ChartPoint, DriftSource, HistoryPoint, HorizonMode, NotebookSection, NotebookStep, OptionPricing, PositionInput, ProbabilityGrid, TargetMode, VolSource } from './types';
+import { ASSETS, AssetId, MARKET_DATA_PROVIDERS, ProviderId } from './services/marketData';
+import { loadForecasts, saveForecasts } from './services/forecastStore';
+import { loadPins, savePins, MAX_PINS } from './services/pinStore';
+import { fetchOptionQuotes, fetchPerpFunding, fixtureOptionQuotes } from './services/deribit';
+import { appendTicks, loadMinuteCandles, loadTicks, pruneStore, seriesKey } from './services/tickStore';
+import { loadAlertLog, loadAlertRules, saveAlertLog, saveAlertRules, MAX_ALERT_LOG } from './services/alertStore';
+import { deliverAlert, notificationsSupported, requestNotificationPermission } from './services/notifications';
+import { AlertEvent, AlertRule, AlertRuleState, AlertSnapshot, evaluateAlerts } from './utils/alerts';
+import { Forecast, forecastAsset, forecastProvider, resolveForecasts, settleForecast, RESOLUTION_GRACE_MS } from './utils/calibration';
+import { PinnedForecast, nextPinColor, updatePins } from './utils/pins';
+import CalibrationPanel from './components/CalibrationPanel';
+import PinnedForecastsPanel from './components/PinnedForecastsPanel';
+import PositionRiskPanel from './components/PositionRiskPanel';
+import TerminalDistributionPanel from './components/TerminalDistributionPanel';
+import ProbabilityHeatmap from './components/ProbabilityHeatmap';
+import ReplayPanel from './components/ReplayPanel';
+import TargetDragLayer from './components/TargetDragLayer';
+import ProbeTooltip from './components/ProbeTooltip';
+import PerfHud from './components/PerfHud';
+import StrikeLadder from './components/StrikeLadder';
+import PricingPanel from './components/PricingPanel';
+import AlertsPanel from './components/AlertsPanel';
+import PresetsPanel from './components/PresetsPanel';
+import TermStructureChart from './components/TermStructureChart';
+import ExportMenu, { ExportFormat } from './components/ExportMenu';
+import { loadPresets, savePresets, Preset } from './services/presetStore';
+import { downloadFile, exportChartData, exportNotebook, exportReport } from './services/exports';
+import { decodeScenario, encodeScenario, Scenario, DEFAULT_SCENARIO, MAX_HORIZON_MINUTES } from './utils/scenario';
+import { SimulationResult } from './utils/monteCarlo';
+import { realizedVolatility, VolEstimator, VOL_ESTIMATORS } from './utils/volatility';
+import { ewmaDrift, DriftEstimate, DRIFT_LOOKBACKS, DRIFT_SOURCES } from './utils/drift';
+import {
+  aggregateCandles,
+  insertTicks,
+  mergeCandles,
+  resampleCandles,
+  ChartResolution,
+  CANDLE_RESOLUTIONS
+} from './utils/candles';
+import {
+  barrierHitProbability,
+  blackScholes,
+  cumulativeDistribution,
+  buildTermStructure,
+  evaluateStrike,
+  gbmTerminal,
+  interpolateTermVol,
+  TermPoint
+} from './quant';
+import {
+  gbmDistribution,
+  mertonDistribution,
+  studentTDistribution,
+  terminalPriceDistribution,
+  ModelKind,
+  MertonParams,
+  MODEL_LABELS
+} from './utils/distributions';
+import { ConeProfile, coneToChart, ProjectionParams, sameProjection } from './utils/projection';
+import { HeatmapParams } from './utils/heatmap';
+import { exitThroughSpot, PositionFan, PositionFanParams, shiftPositionFan } from './utils/positionFan';
+import { createTickBatcher, TickFlushInterval } from './utils/tickBatcher';
+import { createReplaySession, formatTickFile, parseTickFile, ReplaySession, TickFileFormat } from './services/replay';
+import { createPerfMonitor } from './utils/perfMonitor';
+import { formatHorizon } from './utils/format';
+import { EXPIRY_KINDS, expiryCode, expiryKind, nextExpiry, upcomingExpiries } from './utils/expiry';
+import type { SimulationRequest, SimulationResponse } from './workers/monteCarlo.worker';
+import type { ProjectionRequest, ProjectionResponse } from './workers/projection.worker';
+import type { HeatmapRequest, HeatmapResponse } from './workers/heatmap.worker';
+import type { PositionFanRequest, PositionFanResponse } from './workers/positionFan.worker';
+
+// --- HELPERS ---
 
 const formatCurrency = (val: number) =>
   new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(val);
 
 const formatNumber = (val: number, d = 4) => val.toFixed(d);
 
-// --- TYPES ---
+const formatPercent = (val: number, d = 2) => `${(val * 100).toFixed(d)}%`;
+
+// The horizon slider is logarithmic so minutes and weeks both get usable travel
+const HORIZON_SLIDER_STEPS = 1000;
+const horizonToSlider = (minutes: number) => Math.round((Math.log(minutes) / Math.log(MAX_HORIZON_MINUTES)) * HORIZON_SLIDER_STEPS);
+const sliderToHorizon = (position: number) => Math.round(MAX_HORIZON_MINUTES ** (position / HORIZON_SLIDER_STEPS));
+
+// Countdown resolution in expiry mode
+const EXPIRY_CLOCK_MS = 1000;
+
+// How far t may shrink under the expiry countdown before a simulation counts as stale
+const MC_HORIZON_TOLERANCE = 0.01;
+
+// Relative spot move after which a simulation no longer describes the live S₀
+const MC_SPOT_TOLERANCE = 0.001;
+
+const formatExpiry = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// datetime-local wants local wall time without a zone
+const toLocalInput = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return new Date(timestamp - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+// Heatmap columns (minutes) and strikes either side of spot
+const HEATMAP_HORIZONS = [5, 15, 60, 240, 1440, 4320, 10080, 20160, MAX_HORIZON_MINUTES];
+const HEATMAP_STRIKES_PER_SIDE = 6;
+
+// Shortest gap between heatmap requests while the inputs keep changing
+const HEATMAP_THROTTLE_MS = 1000;
+
+// Number of time slices in the projected cone (and simulated paths)
+const PROJECTION_STEPS = 40;
+
+// Time slices in the position P&L fan
+const PNL_FAN_STEPS = 20;
+
+// Relative horizon change (e.g. the expiry countdown) that rebuilds the P&L fan
+const PNL_FAN_HORIZON_TOLERANCE = 0.01;
+
+// Relative spot move that rebuilds the P&L fan: small with a stop or take-profit, whose odds
+// move with the distance to the level; larger without, where the fan shifts with the spot
+const PNL_FAN_EXIT_SPOT_TOLERANCE = 0.001;
+const PNL_FAN_SPOT_TOLERANCE = 0.01;
+
+// How often batched ticks reach the UI
+const TICK_INTERVALS: { value: TickFlushInterval; label: string }[] = [
+  { value: 'frame', label: 'Frame' },
+  { value: 100, label: '100ms' },
+  { value: 250, label: '250ms' },
+  { value: 1000, label: '1s' },
+];
+
+// Last-resort volatility (%) when neither DVOL nor realized vol is available
+const DEFAULT_VOL = 60;
+
+// Shading for the L-U band in range mode
+const RANGE_BAND_STYLE = { fill: '#10b981', fillOpacity: 0.08, stroke: '#10b981', strokeOpacity: 0.6, strokeDasharray: '4 2' };
 
-type TrendBias = 'bear' | 'neutral' | 'bull';
+// Pinned forecasts take their colour from the pin
+const pinDotStyle = (color: string) => ({ fill: color, stroke: '#0f172a', strokeWidth: 1 });
+const pinRangeStyle = (color: string) => ({ fill: color, fillOpacity: 0.04, stroke: color, strokeOpacity: 0.5, strokeDasharray: '4 2' });
 
-interface HistoryPoint {
-  timestamp: number;
-  price: number;
-}
+// Stable empty buffer for assets that haven't ticked yet
+const EMPTY_HISTORY: HistoryPoint[] = [];
 
-interface ChartPoint {
-  timestamp: number;
-  price?: number;
-  mean?: number;
-  // Ranges for cones: [Lower, Upper]
-  sigma1?: [number, number]; 
-  sigma2?: [number, number];
-  sigma3?: [number, number];
-}
+// In-memory tick buffer per asset (snake, realized vol)
+const TICK_BUFFER = 150;
+
+// Stored ticks younger than this are restored into the buffer on load
+const TICK_RESTORE_WINDOW_MS = 5 * 60 * 1000;
+
+// Queued ticks are written to IndexedDB in batches
+const STORE_FLUSH_MS = 2000;
+
+// Expired forecasts and pins are checked this often
+const SETTLE_INTERVAL_MS = 1000;
+
+// Wait before asking the venue again after a failed trade lookup
+const TRADE_LOOKUP_RETRY_MS = 60 * 1000;
+
+// The options book changes slowly and the full summary is large
+const TERM_STRUCTURE_POLL_MS = 5 * 60 * 1000;
+
+// Views spanning days label the axis with dates
+const isMultiDay = (resolution: ChartResolution) => resolution === '5m' || resolution === '1h';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RV_INTERVALS = [
+  { ms: 1000, label: '1s' },
+  { ms: 5000, label: '5s' },
+  { ms: 15000, label: '15s' },
+  { ms: 60000, label: '1m' },
+];
+
+// Notebook grid layouts, spelled out so Tailwind sees the class names
+const NOTEBOOK_COLUMNS = { 1: '', 2: 'md:grid-cols-2', 3: 'md:grid-cols-3' };
 
 // --- COMPONENTS ---
 
 // A small helper to render mathematical steps cleanly
-const MathStep = ({ label, formula, result, desc }: { label: string, formula: string, result: string, desc?: string }) => (
+const MathStep = ({ label, formula, result, desc }: NotebookStep) => (
   <div className="border-l-2 border-slate-700 pl-4 py-1 mb-4">
     <div className="flex justify-between items-baseline mb-1">
       <span className="text-xs font-bold text-indigo-400 uppercase tracking-wider">{label}</span>
@@ -103,87 +248,679 @@ const PulsingDot = (props: any) => {
 
 const EtherQuantDashboard: React.FC = () => {
   // --- STATE ---
+
+  // Scenario from a shared link, over the defaults
+  const [urlScenario] = useState<Partial<Scenario>>(() => decodeScenario(window.location.search));
+  const initial = { ...DEFAULT_SCENARIO, ...urlScenario };
   
   // Market Data
   const [livePrice, setLivePrice] = useState<number | null>(null);
-  const [history, setHistory] = useState<HistoryPoint[]>([]);
-  const [liveVol, setLiveVol] = useState<number>(60);
+  const [assetId, setAssetId] = useState<AssetId>(initial.asset);
+  // One tick buffer per asset so switching never mixes series
+  const [histories, setHistories] = useState<Partial<Record<AssetId, HistoryPoint[]>>>({});
+  const [liveVol, setLiveVol] = useState<number | null>(null); // Last good DVOL
+  const [termStructure, setTermStructure] = useState<TermPoint[] | null>(null); // ATM IV per option expiry
   const [isVolEstimated, setIsVolEstimated] = useState<boolean>(false);
   const [isConnected, setIsConnected] = useState<boolean>(false);
+  const [providerId, setProviderId] = useState<ProviderId>(initial.provider);
+  const [reconnectAttempt, setReconnectAttempt] = useState<number>(0);
+
+  // Long History
+  const [resolution, setResolution] = useState<ChartResolution>('tick');
+  const [candles, setCandles] = useState<Candle[]>([]);
+  const [rvCandles, setRvCandles] = useState<Candle[]>([]); // Realized-vol bars, from the tick store then live
+
+  // Feed Health
+  const [staleAfterSec, setStaleAfterSec] = useState<number>(15);
+  const [staleSeconds, setStaleSeconds] = useState<number | null>(null); // null while fresh
+
+  // Feed Throughput
+  const [tickInterval, setTickInterval] = useState<TickFlushInterval>('frame');
+  const [showPerfHud, setShowPerfHud] = useState<boolean>(false);
+  const [perf] = useState(createPerfMonitor);
 
   // User Controls
-  const [targetPrice, setTargetPrice] = useState<number>(3000.00);
-  const [timeMinutes, setTimeMinutes] = useState<number>(10);
-  const [bias, setBias] = useState<TrendBias>('neutral');
+  const [targetPrice, setTargetPrice] = useState<number>(initial.targetPrice);
+  const [targetMode, setTargetMode] = useState<TargetMode>(initial.targetMode);
+  const [rangeLower, setRangeLower] = useState<number>(initial.rangeLower);
+  const [rangeUpper, setRangeUpper] = useState<number>(initial.rangeUpper);
+  const [timeMinutes, setTimeMinutes] = useState<number>(initial.timeMinutes);
+  const [horizonMode, setHorizonMode] = useState<HorizonMode>(initial.horizonMode);
+  const [expiry, setExpiry] = useState<number>(initial.expiry);
+  const [clock, setClock] = useState<number>(Date.now); // Wall clock behind the expiry countdown
+
+  // Chart Interaction
+  const [placeOnClick, setPlaceOnClick] = useState(false); // Clicks on the chart set the target
+  const [showProbe, setShowProbe] = useState(true);        // Tooltip odds above/below the hovered price
+
+  // Drift Controls
+  const [driftSource, setDriftSource] = useState<DriftSource>(initial.driftSource);
+  const [manualDrift, setManualDrift] = useState<number>(initial.manualDrift);     // Annualized %
+  const [riskFreeRate, setRiskFreeRate] = useState<number>(initial.riskFreeRate);  // Annualized %
+  const [driftLookback, setDriftLookback] = useState<number>(initial.driftLookback); // Minutes of 1m bars
+  const [ewmaEstimate, setEwmaEstimate] = useState<DriftEstimate | null>(null);
+  const [fundingRate, setFundingRate] = useState<number | null>(null); // Annualized, decimal
+
+  // Distribution Model
+  const [modelKind, setModelKind] = useState<ModelKind>(initial.modelKind);
+  const [mertonParams, setMertonParams] = useState<MertonParams>(initial.mertonParams);
+  const [studentDf, setStudentDf] = useState<number>(initial.studentDf);
   
   // Volatility Controls
-  const [useLiveVol, setUseLiveVol] = useState<boolean>(true);
-  const [manualVol, setManualVol] = useState<number>(60);
+  const [volSource, setVolSource] = useState<VolSource>(initial.volSource);
+  const [manualVol, setManualVol] = useState<number>(initial.manualVol);
+  const [rvEstimator, setRvEstimator] = useState<VolEstimator>(initial.rvEstimator);
+  const [rvIntervalMs, setRvIntervalMs] = useState<number>(initial.rvIntervalMs);
+  const [rvLookback, setRvLookback] = useState<number>(initial.rvLookback);
+
+  // Monte Carlo Controls
+  const [mcPaths, setMcPaths] = useState<number>(initial.mcPaths);
+  const [mcSeed, setMcSeed] = useState<number>(initial.mcSeed);
+  const [mcResult, setMcResult] = useState<SimulationResult | null>(null);
+  const [mcRunning, setMcRunning] = useState<boolean>(false);
+  const [mcError, setMcError] = useState<string | null>(null);
+  const [showPaths, setShowPaths] = useState<boolean>(true);
+
+  // Replay & Recording
+  const [replay, setReplay] = useState<ReplaySession | null>(null);
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+
+  // Projected cone in log space, from the projection worker
+  const [coneProfile, setConeProfile] = useState<ConeProfile | null>(null);
+  const [coneError, setConeError] = useState<string | null>(null);
+
+  // Heatmap grid and position P&L fan, from their workers
+  const [heatmap, setHeatmap] = useState<ProbabilityGrid | null>(null);
+  const [heatmapError, setHeatmapError] = useState<string | null>(null);
+  const [positionFan, setPositionFan] = useState<PositionFan | null>(null);
+  const [positionFanError, setPositionFanError] = useState<string | null>(null);
+  const [fanAnchor, setFanAnchor] = useState<{ S: number; minutes: number; exitTraded: boolean } | null>(null); // Spot and horizon the fan is solved at
+
+  // Forecast Calibration
+  const [forecasts, setForecasts] = useState<Forecast[]>(loadForecasts);
+  const [autoSnapshotMinutes, setAutoSnapshotMinutes] = useState<number>(0);
+
+  // Pinned Forecasts
+  const [pins, setPins] = useState<PinnedForecast[]>(loadPins);
+
+  // Position Risk
+  const [position, setPosition] = useState<PositionInput>({ side: 'long', size: 1, entry: null, stop: null, takeProfit: null });
+
+  // Alerts
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadAlertRules);
+  const [alertLog, setAlertLog] = useState<AlertEvent[]>(loadAlertLog);
+  const [alertSound, setAlertSound] = useState<boolean>(true);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | 'unsupported'>(
+    () => (notificationsSupported() ? Notification.permission : 'unsupported')
+  );
+
+  // Saved Scenarios
+  const [presets, setPresets] = useState<Preset[]>(loadPresets);
 
   // Refs
-  const wsRef = useRef<WebSocket | null>(null);
+  const lastTickRef = useRef<number | null>(null);
+  const latestTickRef = useRef<HistoryPoint | null>(null); // Last trade of the current feed
+  const feedStartRef = useRef<number>(Date.now()); // A feed that never ticks goes stale from here
+  // A linked target is kept rather than replaced by the default
+  const targetAssetRef = useRef<AssetId | null>(urlScenario.targetPrice !== undefined ? initial.asset : null);
+  const snapshotRef = useRef<() => void>(() => {});
+  const forecastsRef = useRef<Forecast[]>(forecasts);
+  const tradeLookupsRef = useRef<Map<string, number>>(new Map()); // Forecast id → earliest next lookup
+  const workerRef = useRef<Worker | null>(null);
+  const mcJobRef = useRef<number>(0);
+  const projectionWorkerRef = useRef<Worker | null>(null);
+  const projectionJobRef = useRef<number>(0);
+  const heatmapWorkerRef = useRef<Worker | null>(null);
+  const heatmapJobRef = useRef<number>(0);
+  const heatmapPostedAtRef = useRef<number>(0);
+  const positionFanWorkerRef = useRef<Worker | null>(null);
+  const positionFanJobRef = useRef<number>(0);
+  const tickIntervalRef = useRef<TickFlushInterval>(tickInterval);
+  const recordingRef = useRef<HistoryPoint[] | null>(null); // Ticks captured while recording
+  const pendingTicksRef = useRef<Map<string, HistoryPoint[]>>(new Map()); // Awaiting persistence, per series
+  const resolutionRef = useRef<ChartResolution>(resolution);
+  const rvWindowRef = useRef({ ms: rvIntervalMs, bars: rvLookback + 1 });
+  const alertPrevRef = useRef<AlertSnapshot | null>(null);
+  const alertStatesRef = useRef<Map<string, AlertRuleState>>(new Map());
+  const chartRef = useRef<HTMLDivElement>(null);
 
   // Derived
-  const activeVolatility = useLiveVol ? liveVol : manualVol;
+  const asset = ASSETS[assetId];
+  // A loaded replay stands in for the selected venue
+  const provider = replay ? replay.provider : MARKET_DATA_PROVIDERS[providerId];
+  // Replayed prices are historical: they must never settle forecasts, fire alerts or land pins
+  const isReplay = provider.id === 'replay';
+  const history = histories[assetId] ?? EMPTY_HISTORY;
+  // In expiry mode the horizon is the time left, floored at the slider's one minute
+  const isExpired = horizonMode === 'expiry' && expiry <= clock;
+  const horizonMinutes = horizonMode === 'expiry' ? Math.max(1, (expiry - clock) / 60000) : timeMinutes;
+
+  // Realized volatility (%) from the stored and live bars, null until enough bars exist
+  const realizedVol = useMemo(() => {
+    const sigma = realizedVolatility(rvCandles, rvEstimator, rvIntervalMs, rvLookback);
+    return sigma === null ? null : sigma * 100;
+  }, [rvCandles, rvEstimator, rvIntervalMs, rvLookback]);
+
+  // Options-implied vol at the chosen horizon, interpolated in total variance across expiries
+  const termVol = useMemo(() => {
+    const estimate = termStructure ? interpolateTermVol(termStructure, horizonMinutes / 525600) : null;
+    return estimate && { ...estimate, iv: estimate.iv * 100 };
+  }, [termStructure, horizonMinutes]);
+
+  // --- EXPIRY COUNTDOWN ---
+
+  useEffect(() => {
+    if (horizonMode !== 'expiry') return;
+    const timer = setInterval(() => setClock(Date.now()), EXPIRY_CLOCK_MS);
+    return () => clearInterval(timer);
+  }, [horizonMode]);
+
+  // Listed expiries roll to the next one in their cycle; a custom date stays expired
+  useEffect(() => {
+    const kind = expiryKind(expiry);
+    if (horizonMode === 'expiry' && expiry <= clock && kind) setExpiry(nextExpiry(kind, clock));
+  }, [horizonMode, expiry, clock]);
+
+  const selectHorizonMode = (mode: HorizonMode) => {
+    const now = Date.now();
+    if (mode === 'expiry' && !(expiry > now)) setExpiry(nextExpiry('weekly', now));
+    setClock(now);
+    setHorizonMode(mode);
+  };
+
+  // Live source prefers the term structure, then DVOL; it falls back to realized vol
+  // (then last DVOL, then DEFAULT_VOL) when Deribit is down
+  const isDvolAvailable = liveVol !== null && !isVolEstimated;
+  const isImpliedAvailable = termVol !== null || isDvolAvailable;
+  const isRealizedInUse = volSource === 'realized'
+    ? realizedVol !== null
+    : volSource === 'live' && !isImpliedAvailable && realizedVol !== null;
+
+  let activeVolatility: number;
+  let volSourceLabel: string;
+  if (volSource === 'manual') {
+    activeVolatility = manualVol;
+    volSourceLabel = 'Manual';
+  } else if (isRealizedInUse) {
+    activeVolatility = realizedVol!;
+    volSourceLabel = `Realized · ${VOL_ESTIMATORS[rvEstimator].label}`;
+  } else if (volSource === 'live' && termVol !== null) {
+    activeVolatility = termVol.iv;
+    volSourceLabel = 'Deribit ATM IV Term';
+  } else if (liveVol !== null) {
+    activeVolatility = liveVol;
+    volSourceLabel = isDvolAvailable ? 'Deribit DVOL' : 'Deribit DVOL (last)';
+  } else {
+    activeVolatility = DEFAULT_VOL;
+    volSourceLabel = 'Default';
+  }
+
+  // Data-driven drift sources fall back to μ = 0 until they have a reading
+  const isDriftUnavailable = (driftSource === 'ewma' && !ewmaEstimate) || (driftSource === 'funding' && fundingRate === null);
+  const driftLookbackLabel = DRIFT_LOOKBACKS.find(l => l.minutes === driftLookback)?.label ?? `${driftLookback}m`;
+  let driftSourceLabel: string;
+  if (isDriftUnavailable) {
+    driftSourceLabel = `${DRIFT_SOURCES[driftSource].short} (unavailable)`;
+  } else if (driftSource === 'ewma') {
+    driftSourceLabel = `EWMA ${driftLookbackLabel} · ${ewmaEstimate!.bars} bars`;
+  } else if (driftSource === 'funding') {
+    driftSourceLabel = `Funding · ${asset.perpInstrument}`;
+  } else {
+    driftSourceLabel = DRIFT_SOURCES[driftSource].label;
+  }
 
   // --- 1. LIVE MARKET DATA ---
 
-  // WebSocket for Price
+  // Ticks from different venues shouldn't be stitched into one line
+  useEffect(() => setHistories({}), [provider]);
+
+  // Price Feed (venue and asset selected in the header)
   useEffect(() => {
-    const connect = () => {
-      const ws = new WebSocket('wss://stream.binance.com:9443/ws/ethusdt@trade');
-      wsRef.current = ws;
+    lastTickRef.current = null;
+    latestTickRef.current = null;
+    feedStartRef.current = Date.now();
+    const series = seriesKey(provider.id, assetId);
+    let cancelled = false;
+
+    const updateHistory = (fn: (prev: HistoryPoint[]) => HistoryPoint[]) =>
+      setHistories(prev => ({ ...prev, [assetId]: fn(prev[assetId] ?? []) }));
+
+    const record = (ticks: HistoryPoint[]) => {
+      // Replayed trades are old; keep them out of the venue's stored history
+      if (provider.id !== 'replay') {
+        const pending = pendingTicksRef.current;
+        pending.set(series, [...(pending.get(series) ?? []), ...ticks]);
+      }
 
-      ws.onopen = () => setIsConnected(true);
-      ws.onclose = () => setIsConnected(false);
-      
-      ws.onmessage = (event) => {
-        const data = JSON.parse(event.data);
-        const currentPrice = parseFloat(data.p);
-        const now = Date.now();
-
-        setLivePrice(currentPrice);
-        setHistory(prev => {
-          // Keep more history for scrolling (150 ticks)
-          const newHistory = [...prev, { timestamp: now, price: currentPrice }];
-          return newHistory.slice(-150);
+      const rv = rvWindowRef.current;
+      setRvCandles(prev => insertTicks(prev, ticks, rv.ms, rv.bars));
+
+      const res = resolutionRef.current;
+      if (res === 'tick') return;
+      const { ms, maxCandles } = CANDLE_RESOLUTIONS[res];
+      setCandles(prev => insertTicks(prev, ticks, ms, maxCandles));
+    };
+
+    // Restore the recent buffer a reload would otherwise have wiped
+    loadTicks(series, Date.now() - TICK_RESTORE_WINDOW_MS, TICK_BUFFER).then(stored => {
+      if (cancelled || stored.length === 0) return;
+      updateHistory(prev => {
+        const older = prev.length > 0 ? stored.filter(t => t.timestamp < prev[0].timestamp) : stored;
+        return [...older, ...prev].slice(-TICK_BUFFER);
+      });
+    });
+
+    // Trades are applied once per flush, not once per message
+    const batcher = createTickBatcher<HistoryPoint>(() => tickIntervalRef.current, (ticks) => {
+      perf.flush();
+      recordingRef.current?.push(...ticks);
+      latestTickRef.current = ticks[ticks.length - 1];
+      setLivePrice(ticks[ticks.length - 1].price);
+      updateHistory(prev => {
+        // Longer history lives in the tick store
+        const newHistory = [...prev, ...ticks];
+        return newHistory.slice(-TICK_BUFFER);
+      });
+      record(ticks);
+    });
+
+    const disconnect = provider.connect(assetId, {
+      onOpen: () => {
+        setIsConnected(true);
+        setReconnectAttempt(0);
+      },
+      onClose: () => setIsConnected(false),
+      onReconnecting: (attempt) => setReconnectAttempt(attempt),
+      onTick: (tick) => {
+        lastTickRef.current = Date.now();
+        perf.tick();
+        batcher.push(tick);
+      },
+      onBackfill: (ticks) => {
+        // Splice recovered trades into the hole left by the outage
+        updateHistory(prev => {
+          const merged = [...prev, ...ticks].sort((a, b) => a.timestamp - b.timestamp);
+          return merged.slice(-TICK_BUFFER);
         });
-      };
+        record(ticks);
+      },
+      onReset: (ticks) => {
+        // Whatever was queued predates the reset
+        batcher.flush();
+        updateHistory(() => ticks.slice(-TICK_BUFFER));
+        setLivePrice(ticks.length > 0 ? ticks[ticks.length - 1].price : null);
+        setCandles([]);
+        setRvCandles([]);
+        record(ticks);
+      },
+    });
+
+    return () => {
+      cancelled = true;
+      disconnect();
+      batcher.flush();
     };
+  }, [provider, assetId, perf]);
 
-    connect();
-    return () => wsRef.current?.close();
+  useEffect(() => {
+    tickIntervalRef.current = tickInterval;
+  }, [tickInterval]);
+
+  // Render cost of each flushed batch, measured at commit
+  useLayoutEffect(() => perf.commit());
+
+  // Writes queued ticks to the store; resolves once they are readable
+  const flushTicks = useCallback(() => {
+    const pending = pendingTicksRef.current;
+    pendingTicksRef.current = new Map();
+    return Promise.all(
+      [...pending.entries()].map(([series, ticks]) =>
+        // Backfilled trades can land after newer live ones
+        appendTicks(series, [...ticks].sort((a, b) => a.timestamp - b.timestamp))
+      )
+    );
   }, []);
 
+  useEffect(() => {
+    pruneStore(Date.now());
+    const timer = setInterval(flushTicks, STORE_FLUSH_MS);
+    window.addEventListener('pagehide', flushTicks);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('pagehide', flushTicks);
+      flushTicks();
+    };
+  }, [flushTicks]);
+
+  // Candle views: stored history at the chosen resolution, then live ticks folded in by the feed
+  useEffect(() => {
+    resolutionRef.current = resolution;
+    setCandles([]);
+    if (resolution === 'tick') return;
+
+    const { ms, maxCandles } = CANDLE_RESOLUTIONS[resolution];
+    const series = seriesKey(provider.id, assetId);
+    const since = Math.floor((Date.now() - ms * maxCandles) / ms) * ms;
+    let cancelled = false;
+
+    const load = async () => {
+      // Anything still queued must be in the store before it is read back
+      await flushTicks();
+      const stored = resolution === '1s'
+        ? aggregateCandles(await loadTicks(series, since), ms)
+        : resampleCandles(await loadMinuteCandles(series, since), ms);
+      // Ticks that arrived while loading are already in `prev`
+      if (!cancelled) setCandles(prev => mergeCandles(stored, prev).slice(-maxCandles));
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, assetId, resolution, flushTicks]);
+
+  // Realized-vol bars: the lookback from the store (the tick buffer is far shorter), then live ticks folded in
+  useEffect(() => {
+    const ms = rvIntervalMs;
+    const bars = rvLookback + 1; // n returns need n + 1 closes
+    rvWindowRef.current = { ms, bars };
+    setRvCandles([]);
+
+    const series = seriesKey(provider.id, assetId);
+    const since = Math.floor((Date.now() - ms * bars) / ms) * ms;
+    let cancelled = false;
+
+    const load = async () => {
+      await flushTicks();
+      const stored = ms % 60000 === 0
+        ? resampleCandles(await loadMinuteCandles(series, since), ms)
+        : aggregateCandles(await loadTicks(series, since), ms);
+      if (!cancelled) setRvCandles(prev => mergeCandles(stored, prev).slice(-bars));
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, assetId, rvIntervalMs, rvLookback, flushTicks]);
+
+  const selectAsset = (next: AssetId) => {
+    if (next === assetId) return;
+    // Resume from the asset's own buffer rather than carrying the old spot across
+    const buffer = histories[next];
+    setLivePrice(buffer && buffer.length > 0 ? buffer[buffer.length - 1].price : null);
+    setAssetId(next);
+  };
+
+  // Replays pause on load; the feed switches over as soon as the session is set
+  const loadReplay = (name: string, text: string) => {
+    const ticks = parseTickFile(text);
+    replay?.pause();
+    setReplay(createReplaySession(name, ticks));
+  };
+
+  const ejectReplay = () => {
+    replay?.pause();
+    setReplay(null);
+    setLivePrice(null); // Until the live feed ticks again
+  };
+
+  const startRecording = () => {
+    recordingRef.current = [];
+    setIsRecording(true);
+  };
+
+  const stopRecording = (format?: TickFileFormat) => {
+    const ticks = recordingRef.current ?? [];
+    recordingRef.current = null;
+    setIsRecording(false);
+    if (!format || ticks.length === 0) return;
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    downloadFile(formatTickFile(ticks, format), `${assetId.toLowerCase()}-ticks-${stamp}.${format}`, format === 'csv' ? 'text/csv' : 'application/x-ndjson');
+  };
+
+  // Staleness watchdog: flags the feed once no trade has arrived for staleAfterSec
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const age = (Date.now() - (lastTickRef.current ?? feedStartRef.current)) / 1000;
+      setStaleSeconds(age > staleAfterSec ? Math.floor(age) : null);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [staleAfterSec]);
+
+  const isStale = staleSeconds !== null;
+
+  // Last trade, as long as the feed has stayed fresh since: a quiet tape still has a price
+  const freshTick = (now: number) => {
+    const last = lastTickRef.current;
+    return last !== null && now - last <= staleAfterSec * 1000 ? latestTickRef.current : null;
+  };
+
   // Fetch DVOL
   useEffect(() => {
+    // Another asset's DVOL is meaningless here
+    setLiveVol(null);
+
+    // No implied-vol index for this asset: live source falls back to realized vol
+    if (!asset.dvolIndex) {
+      setIsVolEstimated(true);
+      return;
+    }
+    const indexName = asset.dvolIndex;
+    let cancelled = false;
+
     const fetchDvol = async () => {
       try {
-        const response = await fetch('https://www.deribit.com/api/v2/public/get_dvol_index?index_name=eth_dvol');
+        const response = await fetch(`https://www.deribit.com/api/v2/public/get_dvol_index?index_name=${indexName}`);
         if (!response.ok) throw new Error('Network response was not ok');
         const data = await response.json();
         const dvol = data.result.index_price;
-        if (dvol) {
+        if (dvol && !cancelled) {
           setLiveVol(dvol);
           setIsVolEstimated(false);
         }
       } catch (error) {
-        setLiveVol(60); 
-        setIsVolEstimated(true);
+        // Keep the last good reading; activeVolatility falls back to realized vol
+        if (!cancelled) setIsVolEstimated(true);
       }
     };
     fetchDvol();
     const interval = setInterval(fetchDvol, 60000);
-    return () => clearInterval(interval);
-  }, []);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [asset]);
+
+  // Options term structure, polled only while it drives the live σ. The mock feed
+  // reads the bundled generated rows so the curve works offline.
+  useEffect(() => {
+    setTermStructure(null);
+    const currency = asset.optionsCurrency;
+    if (!currency || volSource !== 'live') return;
+    let cancelled = false;
+
+    const fetchTermStructure = async () => {
+      try {
+        const quotes = providerId === 'mock' ? fixtureOptionQuotes(currency, Date.now()) : await fetchOptionQuotes(currency);
+        const points = buildTermStructure(quotes, Date.now());
+        if (!cancelled) setTermStructure(points.length > 0 ? points : null);
+      } catch (error) {
+        // Keep the last curve; without one the live source uses DVOL
+      }
+    };
+    fetchTermStructure();
+    const interval = setInterval(fetchTermStructure, TERM_STRUCTURE_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [asset, providerId, volSource]);
 
-  // Set initial target
+  // Perp funding, polled only while it drives μ
   useEffect(() => {
-    if (livePrice && targetPrice === 3000 && livePrice !== 3000) {
-       setTargetPrice(Math.round(livePrice * 0.998)); // Default slightly below for interesting prob
+    setFundingRate(null);
+    if (driftSource !== 'funding') return;
+    let cancelled = false;
+
+    const fetchFunding = () =>
+      fetchPerpFunding(asset.perpInstrument)
+        .then(rate => {
+          if (!cancelled) setFundingRate(rate);
+        })
+        .catch(() => {
+          // Keep the last reading; μ stays at 0 until the first one arrives
+        });
+    fetchFunding();
+    const interval = setInterval(fetchFunding, 60000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [driftSource, asset]);
+
+  // EWMA drift from the stored 1m candles, refreshed each minute
+  useEffect(() => {
+    setEwmaEstimate(null);
+    if (driftSource !== 'ewma') return;
+    const series = seriesKey(provider.id, assetId);
+    let cancelled = false;
+
+    const estimate = async () => {
+      await flushTicks();
+      const candles = await loadMinuteCandles(series, Date.now() - driftLookback * 60 * 1000);
+      if (!cancelled) setEwmaEstimate(ewmaDrift(candles, driftLookback));
+    };
+    estimate();
+    const interval = setInterval(estimate, 60000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [driftSource, driftLookback, provider, assetId, flushTicks]);
+
+  // Set initial target (once per asset, on its first price)
+  useEffect(() => {
+    if (livePrice && targetAssetRef.current !== assetId) {
+       const scale = 10 ** asset.priceDecimals;
+       setTargetPrice(Math.round(livePrice * 0.998 * scale) / scale); // Default slightly below for interesting prob
+       targetAssetRef.current = assetId;
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [livePrice]);
+  }, [livePrice, assetId]);
+
+  // Monte Carlo Worker
+  useEffect(() => {
+    const worker = new Worker(new URL('./workers/monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+
+    worker.onmessage = (event: MessageEvent<SimulationResponse>) => {
+      const response = event.data;
+      // Ignore results from runs superseded by a newer request
+      if (response.id !== mcJobRef.current) return;
+      setMcRunning(false);
+      if ('error' in response) {
+        setMcError(response.error);
+      } else {
+        setMcResult(response.result);
+        setMcError(null);
+      }
+    };
+
+    // A worker that fails to load or throws never answers, so release the run button here
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      setMcRunning(false);
+      setMcError(event.message || 'Simulation worker failed');
+    };
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // Projection Worker
+  useEffect(() => {
+    const worker = new Worker(new URL('./workers/projection.worker.ts', import.meta.url), { type: 'module' });
+    projectionWorkerRef.current = worker;
+
+    worker.onmessage = (event: MessageEvent<ProjectionResponse>) => {
+      const response = event.data;
+      if (response.id !== projectionJobRef.current) return;
+      if ('error' in response) {
+        setConeError(response.error);
+      } else {
+        setConeProfile(response.profile);
+        setConeError(null);
+      }
+    };
+
+    // Load failures and uncaught throws arrive here instead of as a response
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      setConeError(event.message || 'Projection worker failed');
+    };
+
+    return () => {
+      worker.terminate();
+      projectionWorkerRef.current = null;
+    };
+  }, []);
+
+  // Heatmap Worker
+  useEffect(() => {
+    const worker = new Worker(new URL('./workers/heatmap.worker.ts', import.meta.url), { type: 'module' });
+    heatmapWorkerRef.current = worker;
+
+    worker.onmessage = (event: MessageEvent<HeatmapResponse>) => {
+      const response = event.data;
+      if (response.id !== heatmapJobRef.current) return;
+      if ('error' in response) {
+        setHeatmapError(response.error);
+      } else {
+        setHeatmap(response.grid);
+        setHeatmapError(null);
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      setHeatmapError(event.message || 'Heatmap worker failed');
+    };
+
+    return () => {
+      worker.terminate();
+      heatmapWorkerRef.current = null;
+    };
+  }, []);
+
+  // Position Fan Worker
+  useEffect(() => {
+    const worker = new Worker(new URL('./workers/positionFan.worker.ts', import.meta.url), { type: 'module' });
+    positionFanWorkerRef.current = worker;
+
+    worker.onmessage = (event: MessageEvent<PositionFanResponse>) => {
+      const response = event.data;
+      if (response.id !== positionFanJobRef.current) return;
+      if ('error' in response) {
+        setPositionFanError(response.error);
+      } else {
+        setPositionFan(response.fan);
+        setPositionFanError(null);
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      setPositionFanError(event.message || 'P&L fan worker failed');
+    };
+
+    return () => {
+      worker.terminate();
+      positionFanWorkerRef.current = null;
+    };
+  }, []);
 
   // --- 2. PROBABILISTIC MODELING ---
 
@@ -193,59 +930,503 @@ const EtherQuantDashboard: React.FC = () => {
     // 1. Inputs
     const S = livePrice;
     const K = targetPrice;
-    const t_years = timeMinutes / 525600; // 525600 minutes in a year
+    const t_years = horizonMinutes / 525600; // 525600 minutes in a year
     const sigma = activeVolatility / 100;
 
-    // 2. Drift (μ)
+    // 2. Drift (μ), annualized
     let mu = 0;
-    if (bias === 'bull') mu = 0.5 * sigma;
-    if (bias === 'bear') mu = -0.5 * sigma;
-
-    // 3. Log Return
-    const logReturn = Math.log(K / S);
-
-    // 4. Ito's Correction & Drift Term
-    // Geometric Brownian Motion log-returns are normally distributed with mean (μ - σ²/2)t
-    const driftCorrection = mu - 0.5 * Math.pow(sigma, 2);
-    const driftTerm = driftCorrection * t_years;
-
-    // 5. Diffusion Term (Denominator)
-    const diffusionTerm = sigma * Math.sqrt(t_years);
-
-    // 6. Z-Score
-    // Standardizing the random variable
-    const numerator = logReturn - driftTerm;
-    const zScore = numerator / diffusionTerm;
-
-    // 7. Probability
-    // The CDF gives P(Z < zScore).
-    // If K > S (Target is above), we usually want probability of hitting it (going UP).
-    // If K < S (Target is below), we want probability of dropping to it (going DOWN).
-    // The Z-Score formula z = (ln(K/S) - ...)/... measures how many SDs K is from the Mean.
-    // If z is positive, K is above the mean. If z is negative, K is below.
-    
-    // CDF(z) is the probability that the realized price will be LESS THAN K.
-    const cdf = cumulativeDistribution(zScore);
-    
-    // If target is ABOVE price, we want P(St > K) = 1 - CDF(z)
-    // If target is BELOW price, we want P(St < K) = CDF(z)
-    const probability = targetPrice > livePrice ? (1 - cdf) : cdf;
+    if (driftSource === 'manual') mu = manualDrift / 100;
+    if (driftSource === 'riskNeutral') mu = riskFreeRate / 100;
+    if (driftSource === 'funding' && fundingRate !== null) mu = fundingRate;
+    // EWMA estimates the log-return mean ν, so add back Ito's σ²/2
+    if (driftSource === 'ewma' && ewmaEstimate) mu = ewmaEstimate.nu + 0.5 * sigma * sigma;
+
+    // 3-7. Log return, Ito's correction νt, diffusion σ√t, z-score and N(z)
+    const { logReturn, driftCorrection, driftTerm, diffusionTerm, zScore, pAbove, pBelow } =
+      gbmTerminal(S, K, mu, sigma, t_years);
+
+    // If target is ABOVE price, we want P(St > K) = 1 - N(z)
+    // If target is BELOW price, we want P(St < K) = N(z)
+    const probability = targetPrice > livePrice ? pAbove : pBelow;
     const direction = targetPrice > livePrice ? 'above' : 'below';
 
-    return { 
-      S, K, t_years, sigma, mu, 
-      driftCorrection, driftTerm, diffusionTerm, 
-      logReturn, zScore, probability, direction 
+    // 8. Touch Probability (First Passage)
+    // Chance the path crosses K at ANY point before t, not just at t.
+    // Always >= the terminal probability since every path ending beyond K touched it.
+    const touch = barrierHitProbability(logReturn, driftCorrection, sigma, t_years);
+
+    return {
+      S, K, t_years, sigma, mu,
+      driftCorrection, driftTerm, diffusionTerm,
+      logReturn, zScore, probability, direction,
+      touch, touchProbability: touch.probability
+    };
+  }, [livePrice, targetPrice, horizonMinutes, activeVolatility, driftSource, manualDrift, riskFreeRate, fundingRate, ewmaEstimate]);
+
+  // Fat-tailed alternative to GBM with the same σ, μ and horizon (null when GBM is active)
+  const buildAltDistribution = useCallback((t: number) => {
+    if (!model) return null;
+    if (modelKind === 'merton') return { kind: modelKind, ...mertonDistribution(model.mu, model.sigma, t, mertonParams) };
+    if (modelKind === 'studentT') return { kind: modelKind, ...studentTDistribution(model.mu, model.sigma, t, studentDf) };
+    return null;
+  }, [model, modelKind, mertonParams, studentDf]);
+
+  const altModel = useMemo(() => {
+    if (!model) return null;
+    const dist = buildAltDistribution(model.t_years);
+    if (!dist) return null;
+    const cdf = dist.cdf(model.logReturn);
+    const probability = model.direction === 'above' ? 1 - cdf : cdf;
+    return { dist, cdf, probability };
+  }, [model, buildAltDistribution]);
+
+  // Headline probability from whichever model is selected
+  const activeProbability = altModel ? altModel.probability : model?.probability ?? 0;
+
+  // Range: P(L < S_t < U) = F(ln(U/S)) - F(ln(L/S)) under the selected model; N(z_U) - N(z_L) for GBM
+  const rangeModel = useMemo(() => {
+    if (!model || targetMode !== 'range') return null;
+    const isValid = rangeLower > 0 && rangeUpper > rangeLower;
+    const zOf = (K: number) => (Math.log(K / model.S) - model.driftTerm) / model.diffusionTerm;
+    const zLower = isValid ? zOf(rangeLower) : 0;
+    const zUpper = isValid ? zOf(rangeUpper) : 0;
+    const gbmProbability = isValid ? cumulativeDistribution(zUpper) - cumulativeDistribution(zLower) : 0;
+    const probability = isValid && altModel
+      ? altModel.dist.cdf(Math.log(rangeUpper / model.S)) - altModel.dist.cdf(Math.log(rangeLower / model.S))
+      : gbmProbability;
+    return { lower: rangeLower, upper: rangeUpper, isValid, zLower, zUpper, gbmProbability, probability };
+  }, [model, altModel, targetMode, rangeLower, rangeUpper]);
+
+  // What the result card shows: the range mass in range mode, else the headline probability
+  const finalProbability = rangeModel ? rangeModel.probability : activeProbability;
+  const finalProbabilityLabel = rangeModel ? 'Range Probability' : 'Final Probability';
+
+  // Full density of S_t at the horizon under the active model, shaded beyond the target (or inside L-U)
+  const terminal = useMemo(() => {
+    if (!model || (rangeModel && !rangeModel.isValid)) return null;
+    const dist = buildAltDistribution(model.t_years) ?? gbmDistribution(model.mu, model.sigma, model.t_years);
+    const region: [number, number] = rangeModel
+      ? [rangeModel.lower, rangeModel.upper]
+      : model.direction === 'above' ? [model.K, Infinity] : [0, model.K];
+    const cdfAt = (price: number) => (price <= 0 ? 0 : price === Infinity ? 1 : dist.cdf(Math.log(price / model.S)));
+    return {
+      summary: terminalPriceDistribution(dist, model.S, 160, region),
+      region,
+      probability: cdfAt(region[1]) - cdfAt(region[0]),
     };
-  }, [livePrice, targetPrice, timeMinutes, activeVolatility, bias]);
+  }, [model, rangeModel, buildAltDistribution]);
+
+  // Black-Scholes with the target as strike; μ stands in for the rate so N(d₂) matches model.probability
+  const pricing = useMemo(() => {
+    if (!model) return null;
+    return blackScholes(model.S, model.K, model.mu, model.sigma, model.t_years);
+  }, [model]);
+
+  // Solution Notebook steps, rendered below and exported as Markdown
+  const notebook = useMemo(() => {
+    if (!model) return null;
+    const isAbove = model.direction === 'above';
+
+    const execution: NotebookSection = { title: '2. Execution', columns: 1, steps: [] };
+    if (isRealizedInUse) {
+      execution.steps.push({
+        label: `σ. ${VOL_ESTIMATORS[rvEstimator].label}`,
+        formula: VOL_ESTIMATORS[rvEstimator].formula,
+        result: `${activeVolatility.toFixed(2)}%`,
+        desc: `Last ${rvLookback} × ${RV_INTERVALS.find(i => i.ms === rvIntervalMs)?.label} bars, annualized by √(bars per year).`,
+      });
+    }
+    if (volSource === 'live' && termVol) {
+      const expiryLabel = (p: TermPoint) =>
+        `${new Date(p.expiry).toLocaleDateString([], { month: 'short', day: 'numeric' })} (${(p.atmIv * 100).toFixed(1)}%)`;
+      execution.steps.push({
+        label: 'σ. ATM IV Term Structure',
+        formula: termVol.lower && termVol.upper ? 'σ(t) = √(w(t) / t),  w = σ²T linear in T' : 'σ(t) = σ(nearest expiry)',
+        result: `${termVol.iv.toFixed(2)}%`,
+        desc: termVol.lower && termVol.upper
+          ? `Between the ${expiryLabel(termVol.lower)} and ${expiryLabel(termVol.upper)} expiries.`
+          : `Flat beyond the ${expiryLabel((termVol.lower ?? termVol.upper)!)} expiry.`,
+      });
+    }
+    if (driftSource === 'ewma' && ewmaEstimate) {
+      execution.steps.push({
+        label: 'μ. EWMA Drift',
+        formula: 'ν̂ = Σwᵢrᵢ / ΣwᵢΔtᵢ,  μ = ν̂ + σ²/2',
+        result: model.mu.toFixed(4),
+        desc: `ν̂ = ${ewmaEstimate.nu.toFixed(4)} from ${ewmaEstimate.bars} stored 1m returns, span ${driftLookbackLabel} (wᵢ = λ^age, λ = 1 - 2/(span + 1)).`,
+      });
+    }
+    execution.steps.push(
+      { label: 'A. Log Distance', formula: 'ln(K / S₀)', result: model.logReturn.toFixed(5) },
+      { label: 'B. Drift Adjusted', formula: '(μ - 0.5σ²) * t', result: model.driftTerm.toFixed(5), desc: "Ito's correction applied to drift over time t." },
+      { label: 'C. Z-Score', formula: '(LogDist - Drift) / (σ√t)', result: model.zScore.toFixed(4), desc: 'Standard deviations away from the mean.' },
+    );
+
+    const sections: NotebookSection[] = [{
+      title: '3. Reflection Principle (Touch)',
+      columns: 2,
+      steps: [
+        {
+          label: 'D. Direct Crossing',
+          formula: isAbove ? 'N((νt - b) / (σ√t))' : 'N((b - νt) / (σ√t))',
+          result: model.touch.directTerm.toFixed(5),
+          desc: 'b = ln(K / S₀), ν = μ - 0.5σ². Paths beyond K at t.',
+        },
+        { label: 'E. Reflection Factor', formula: 'exp(2νb / σ²)', result: model.touch.reflectionFactor.toFixed(5), desc: 'Drift-weighted likelihood of the mirrored path.' },
+        {
+          label: 'F. Reflected Crossing',
+          formula: isAbove ? 'N((-b - νt) / (σ√t))' : 'N((b + νt) / (σ√t))',
+          result: model.touch.reflectedTerm.toFixed(5),
+          desc: 'Paths that touched K and came back by t.',
+        },
+        {
+          label: 'G. Touch Probability',
+          formula: 'D + E × F',
+          result: `${(model.touchProbability * 100).toFixed(2)}%`,
+          desc: `vs. ${(model.probability * 100).toFixed(2)}% for finishing ${model.direction} K at t.`,
+        },
+      ],
+    }];
+
+    if (pricing) {
+      sections.push({
+        title: '4. Black-Scholes (K as Strike, r = μ)',
+        columns: 2,
+        steps: [
+          { label: 'H. d₁', formula: '(ln(S₀ / K) + (r + 0.5σ²)t) / (σ√t)', result: pricing.d1.toFixed(5) },
+          { label: 'I. d₂', formula: 'd₁ - σ√t', result: pricing.d2.toFixed(5), desc: "Equals -Z, so N(d₂) is the model's P(Sₜ > K)." },
+          {
+            label: isAbove ? 'J. Call Price' : 'J. Put Price',
+            formula: isAbove ? 'S₀N(d₁) - Ke^(-rt)N(d₂)' : 'Ke^(-rt)N(-d₂) - S₀N(-d₁)',
+            result: formatCurrency(isAbove ? pricing.call.price : pricing.put.price),
+          },
+          {
+            label: isAbove ? 'K. Digital Call' : 'K. Digital Put',
+            formula: isAbove ? 'e^(-rt)N(d₂)' : 'e^(-rt)N(-d₂)',
+            result: (isAbove ? pricing.digitalCall.price : pricing.digitalPut.price).toFixed(5),
+            desc: 'Discounted terminal probability: pays 1 if it finishes beyond K.',
+          },
+        ],
+      });
+    }
+
+    if (rangeModel && rangeModel.isValid) {
+      sections.push({
+        title: '5. Range (L < Sₜ < U)',
+        columns: 3,
+        steps: [
+          { label: 'L. Lower Z', formula: '(ln(L / S₀) - Drift) / (σ√t)', result: rangeModel.zLower.toFixed(4), desc: `L = ${rangeModel.lower}` },
+          { label: 'M. Upper Z', formula: '(ln(U / S₀) - Drift) / (σ√t)', result: rangeModel.zUpper.toFixed(4), desc: `U = ${rangeModel.upper}` },
+          {
+            label: 'N. Range Probability',
+            formula: altModel ? 'F(ln(U / S₀)) - F(ln(L / S₀))' : 'N(z_U) - N(z_L)',
+            result: `${(rangeModel.probability * 100).toFixed(2)}%`,
+            desc: altModel
+              ? `Mass of the ${MODEL_LABELS[altModel.dist.kind]} distribution inside the band. GBM: ${formatPercent(rangeModel.gbmProbability)}.`
+              : 'Mass of the terminal distribution inside the band.',
+          },
+        ],
+      });
+    }
+
+    if (altModel) {
+      const { dist } = altModel;
+      const title = `6. ${MODEL_LABELS[dist.kind]} Distribution`;
+      if (dist.kind === 'merton' && 'kappa' in dist) {
+        sections.push({
+          title,
+          columns: 2,
+          steps: [
+            {
+              label: 'O. Jump Compensator',
+              formula: 'κ = e^(m + 0.5δ²) - 1',
+              result: dist.kappa.toFixed(5),
+              desc: `λ = ${mertonParams.lambda}/yr, m = ${mertonParams.jumpMean}, δ = ${mertonParams.jumpVol}`,
+            },
+            {
+              label: 'P. Diffusive Vol',
+              formula: 'σd = √(σ² - λ(m² + δ²))',
+              result: `${(dist.diffusiveVol * 100).toFixed(2)}%`,
+              desc: dist.isClamped ? 'Jumps exceed σ²: floored at 0.1σ.' : 'Total variance stays σ²; jumps only reshape the tails.',
+            },
+            { label: 'Q. Expected Jumps', formula: 'λt', result: dist.expectedJumps.toFixed(5), desc: `${dist.terms} Poisson terms summed.` },
+            {
+              label: 'R. Mixture Probability',
+              formula: 'Σₙ Pois(n; λt) · N((b - μₙ) / σₙ)',
+              result: formatPercent(altModel.probability),
+              desc: `μₙ = (μ - 0.5σd² - λκ)t + nm, σₙ² = σd²t + nδ². GBM: ${formatPercent(model.probability)}.`,
+            },
+          ],
+        });
+      }
+      if (dist.kind === 'studentT' && 'scale' in dist) {
+        sections.push({
+          title,
+          columns: 3,
+          steps: [
+            { label: 'O. Scale', formula: 's = σ√t · √((df - 2) / df)', result: dist.scale.toFixed(5), desc: `df = ${studentDf}. Matches GBM variance σ²t.` },
+            { label: 'P. t-Statistic', formula: '(LogDist - Drift) / s', result: ((model.logReturn - dist.centre) / dist.scale).toFixed(4) },
+            {
+              label: 'Q. Probability',
+              formula: isAbove ? '1 - T_df(t)' : 'T_df(t)',
+              result: formatPercent(altModel.probability),
+              desc: `GBM: ${formatPercent(model.probability)}.`,
+            },
+          ],
+        });
+      }
+    }
+
+    return { execution, sections };
+  }, [model, pricing, altModel, rangeModel, isRealizedInUse, volSource, termVol, rvEstimator, rvLookback, rvIntervalMs, activeVolatility, driftSource, ewmaEstimate, driftLookbackLabel, mertonParams, studentDf]);
+
+  // Terminal odds follow the selected model; touch and z stay GBM like the headline card
+  const evaluateLadderStrike = useCallback((K: number) => {
+    // Only rendered once model exists
+    const row = evaluateStrike(model!.S, K, model!.driftCorrection, model!.sigma, model!.t_years);
+    if (!altModel) return row;
+    const cdf = altModel.dist.cdf(Math.log(K / model!.S));
+    return { ...row, pAbove: 1 - cdf, pBelow: cdf };
+  }, [model, altModel]);
+
+  const selectTargetMode = (mode: TargetMode) => {
+    if (mode === 'range' && livePrice && !(rangeUpper > rangeLower && rangeLower > 0)) {
+      const scale = 10 ** asset.priceDecimals;
+      setRangeLower(Math.round(livePrice * 0.99 * scale) / scale);
+      setRangeUpper(Math.round(livePrice * 1.01 * scale) / scale);
+    }
+    setTargetMode(mode);
+  };
+
+  // A simulation is stale once an input has changed, or spot or the counting-down t has moved too far
+  const mcStale = useMemo(() => {
+    if (!mcResult || !model) return false;
+    const p = mcResult.params;
+    return p.K !== model.K || p.sigma !== model.sigma || p.mu !== model.mu ||
+      Math.abs(p.S - model.S) > MC_SPOT_TOLERANCE * p.S ||
+      Math.abs(p.t_years - model.t_years) > MC_HORIZON_TOLERANCE * p.t_years;
+  }, [mcResult, model]);
+
+  const runSimulation = () => {
+    if (!model || !workerRef.current) return;
+    const request: SimulationRequest = {
+      id: ++mcJobRef.current,
+      params: {
+        S: model.S,
+        K: model.K,
+        sigma: model.sigma,
+        mu: model.mu,
+        t_years: model.t_years,
+        paths: mcPaths,
+        steps: PROJECTION_STEPS,
+        seed: mcSeed,
+        samplePaths: 25,
+      },
+    };
+    setMcRunning(true);
+    setMcError(null);
+    workerRef.current.postMessage(request);
+  };
+
+  // --- FORECAST CALIBRATION ---
+
+  const snapshotForecast = () => {
+    if (!model || isStale || isReplay) return;
+    const now = Date.now();
+    const forecast: Forecast = {
+      id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+      asset: assetId,
+      provider: provider.id,
+      createdAt: now,
+      expiresAt: now + horizonMinutes * 60 * 1000,
+      S: model.S,
+      K: model.K,
+      timeMinutes: Math.round(horizonMinutes),
+      sigma: model.sigma,
+      mu: model.mu,
+      direction: model.direction,
+      probability: activeProbability,
+      model: MODEL_LABELS[modelKind],
+      volSource: volSourceLabel,
+      bias: DRIFT_SOURCES[driftSource].label,
+      status: 'pending',
+    };
+    setForecasts(prev => [...prev, forecast]);
+  };
+  snapshotRef.current = snapshotForecast;
+
+  useEffect(() => saveForecasts(forecasts), [forecasts]);
+  forecastsRef.current = forecasts;
+
+  // Settled on a clock, not on price changes, and only from the feed each forecast was made on:
+  // the viewed feed and asset from its last fresh trade, anything else from that venue's trade history
+  useEffect(() => {
+    if (isReplay) return;
+    const timer = setInterval(() => {
+      const now = Date.now();
+      const tick = freshTick(now);
+      if (tick) setForecasts(prev => resolveForecasts(prev, providerId, assetId, tick, now));
+
+      // One lookup at a time; a backlog after a long absence drains a forecast per request
+      const lookups = tradeLookupsRef.current;
+      if ([...lookups.values()].includes(Infinity)) return;
+      const f = forecastsRef.current.find(c =>
+        c.status === 'pending' && now >= c.expiresAt + RESOLUTION_GRACE_MS && (lookups.get(c.id) ?? 0) <= now);
+      if (f) {
+        lookups.set(f.id, Infinity); // In flight
+        const asset = forecastAsset(f);
+        const source = forecastProvider(f);
+        const venue = source in MARKET_DATA_PROVIDERS ? MARKET_DATA_PROVIDERS[source as ProviderId] : null;
+        const lookup = venue?.tradeAt && asset in ASSETS ? venue.tradeAt(asset as AssetId, f.expiresAt) : Promise.resolve(null);
+        lookup.then(
+          (trade) => {
+            lookups.delete(f.id);
+            setForecasts(prev => prev.map(p => (p.id === f.id && p.status === 'pending' ? settleForecast(p, trade, Date.now()) : p)));
+          },
+          () => lookups.set(f.id, Date.now() + TRADE_LOOKUP_RETRY_MS),
+        );
+      }
+    }, SETTLE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isReplay, providerId, assetId, staleAfterSec]);
+
+  // --- ALERTS ---
+
+  useEffect(() => saveAlertRules(alertRules), [alertRules]);
+  useEffect(() => saveAlertLog(alertLog), [alertLog]);
+
+  // Rules are checked on every price or model update, never against a stale feed or a replay
+  useEffect(() => {
+    if (isReplay) {
+      alertPrevRef.current = null; // No crossing is read across the gap a replay leaves
+      return;
+    }
+    if (!livePrice || !model || isStale) return;
+    const isRange = !!rangeModel?.isValid;
+    const snapshot: AlertSnapshot = {
+      asset: assetId,
+      timestamp: Date.now(),
+      price: livePrice,
+      target: rangeModel ? null : targetPrice,
+      probability: isRange ? rangeModel!.probability : activeProbability,
+      direction: isRange ? `${rangeLower} < S < ${rangeUpper}` : `${model.direction} ${targetPrice}`,
+      model: MODEL_LABELS[modelKind],
+      horizon: horizonMode === 'expiry' ? `exp ${expiry}` : `${timeMinutes}m`,
+      dvol: isDvolAvailable ? liveVol : null,
+      sigma: model.sigma,
+      drift: model.driftCorrection,
+      horizonMinutes,
+    };
+    const events = evaluateAlerts(alertRules, alertStatesRef.current, alertPrevRef.current, snapshot);
+    alertPrevRef.current = snapshot;
+    if (events.length === 0) return;
+
+    const fired = new Set(events.map(e => e.ruleId));
+    setAlertRules(prev => prev.map(r => (fired.has(r.id) ? { ...r, lastFiredAt: snapshot.timestamp } : r)));
+    setAlertLog(prev => [...events.reverse(), ...prev].slice(0, MAX_ALERT_LOG));
+    events.forEach(e => deliverAlert(e, alertSound));
+  }, [livePrice, model, isStale, rangeModel, assetId, targetPrice, activeProbability, rangeLower, rangeUpper, isDvolAvailable, liveVol, horizonMinutes, horizonMode, expiry, timeMinutes, modelKind, alertRules, alertSound, isReplay]);
+
+  const addAlertRule = (rule: Omit<AlertRule, 'id'>) =>
+    setAlertRules(prev => [...prev, { ...rule, id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}` }]);
+
+  const enableNotifications = async () => setNotificationPermission(await requestNotificationPermission());
+
+  // Scheduled snapshots
+  useEffect(() => {
+    if (autoSnapshotMinutes <= 0) return;
+    const timer = setInterval(() => snapshotRef.current(), autoSnapshotMinutes * 60 * 1000);
+    return () => clearInterval(timer);
+  }, [autoSnapshotMinutes]);
+
+  // --- SCENARIOS ---
+
+  const scenario = useMemo<Scenario>(() => ({
+    asset: assetId,
+    provider: providerId,
+    targetMode,
+    targetPrice,
+    rangeLower,
+    rangeUpper,
+    timeMinutes,
+    horizonMode,
+    expiry,
+    driftSource,
+    manualDrift,
+    riskFreeRate,
+    driftLookback,
+    modelKind,
+    mertonParams,
+    studentDf,
+    volSource,
+    manualVol,
+    rvEstimator,
+    rvIntervalMs,
+    rvLookback,
+    mcPaths,
+    mcSeed,
+  }), [assetId, providerId, targetMode, targetPrice, rangeLower, rangeUpper, timeMinutes, horizonMode, expiry, driftSource, manualDrift, riskFreeRate, driftLookback, modelKind, mertonParams, studentDf, volSource, manualVol, rvEstimator, rvIntervalMs, rvLookback, mcPaths, mcSeed]);
+
+  // Keep the address bar shareable without adding history entries
+  useEffect(() => {
+    const { pathname, hash } = window.location;
+    window.history.replaceState(null, '', `${pathname}?${encodeScenario(scenario)}${hash}`);
+  }, [scenario]);
+
+  useEffect(() => savePresets(presets), [presets]);
+
+  const applyScenario = (next: Partial<Scenario>) => {
+    const s = { ...scenario, ...next };
+    if (next.targetPrice !== undefined) targetAssetRef.current = s.asset;
+    selectAsset(s.asset);
+    setProviderId(s.provider);
+    setTargetMode(s.targetMode);
+    setTargetPrice(s.targetPrice);
+    setRangeLower(s.rangeLower);
+    setRangeUpper(s.rangeUpper);
+    setTimeMinutes(s.timeMinutes);
+    setHorizonMode(s.horizonMode);
+    setExpiry(s.expiry);
+    setClock(Date.now());
+    setDriftSource(s.driftSource);
+    setManualDrift(s.manualDrift);
+    setRiskFreeRate(s.riskFreeRate);
+    setDriftLookback(s.driftLookback);
+    setModelKind(s.modelKind);
+    setMertonParams(s.mertonParams);
+    setStudentDf(s.studentDf);
+    setVolSource(s.volSource);
+    setManualVol(s.manualVol);
+    setRvEstimator(s.rvEstimator);
+    setRvIntervalMs(s.rvIntervalMs);
+    setRvLookback(s.rvLookback);
+    setMcPaths(s.mcPaths);
+    setMcSeed(s.mcSeed);
+  };
+
+  const savePreset = (name: string) =>
+    setPresets(prev => [
+      ...prev.filter(p => p.name !== name),
+      { id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, name, createdAt: Date.now(), scenario },
+    ]);
+
+  // Imported presets replace saved ones of the same name
+  const importPresets = (imported: Preset[]) =>
+    setPresets(prev => {
+      const names = new Set(imported.map(p => p.name));
+      return [...prev.filter(p => !names.has(p.name)), ...imported];
+    });
 
   // --- 3. CHART DATA ---
 
-  const chartData = useMemo(() => {
-    if (!livePrice || !model) return [];
+  const isCandleView = resolution !== 'tick' && candles.length > 0;
 
-    // Historical
-    const historyData: ChartPoint[] = history.map(h => ({
+  // Historical: the raw tick buffer, or OHLC candles (close line, low-high band)
+  const historyData = useMemo<ChartPoint[]>(() => {
+    if (isCandleView) {
+      return candles.map(c => ({ timestamp: c.timestamp, price: c.close, range: [c.low, c.high] }));
+    }
+    return history.map(h => ({
       timestamp: h.timestamp,
       price: h.price,
       mean: undefined,
@@ -253,65 +1434,314 @@ const EtherQuantDashboard: React.FC = () => {
       sigma2: undefined,
       sigma3: undefined,
     }));
+  }, [isCandleView, candles, history]);
 
-    // Projection
-    const projectionData: ChartPoint[] = [];
-    const steps = 40;
-    const now = Date.now();
-    const timeStepMinutes = timeMinutes / steps;
-
-    for (let i = 0; i <= steps; i++) {
-      const stepTimeMinutes = i * timeStepMinutes;
-      const stepT = stepTimeMinutes / 525600;
-      const futureTimestamp = now + (stepTimeMinutes * 60 * 1000);
-
-      // Bridge point
-      if (i === 0) {
-        projectionData.push({
-          timestamp: futureTimestamp,
-          price: undefined,
-          mean: livePrice,
-          sigma1: [livePrice, livePrice],
-          sigma2: [livePrice, livePrice],
-          sigma3: [livePrice, livePrice],
-        });
-        continue;
-      }
+  // The cone only depends on the model's shape, never on the spot, so ticks don't re-project it
+  const coneMu = model?.mu;
+  const coneSigma = model?.sigma;
+  const projectionParams = useMemo<ProjectionParams | null>(() => {
+    if (coneMu === undefined || coneSigma === undefined) return null;
+    return { mu: coneMu, sigma: coneSigma, timeMinutes: horizonMinutes, steps: PROJECTION_STEPS, modelKind, mertonParams, studentDf };
+  }, [coneMu, coneSigma, horizonMinutes, modelKind, mertonParams, studentDf]);
 
-      // Paths
-      const totalDrift = model.driftCorrection * stepT;
-      const totalDiffusion = model.sigma * Math.sqrt(stepT);
-
-      const meanPrice = livePrice * Math.exp(totalDrift);
-
-      // Calculate 3 Sigma Cones
-      const calcBounds = (n: number): [number, number] => {
-        const upper = livePrice * Math.exp(totalDrift + n * totalDiffusion);
-        const lower = livePrice * Math.exp(totalDrift - n * totalDiffusion);
-        return [lower, upper];
-      };
-
-      projectionData.push({
-        timestamp: futureTimestamp,
-        price: undefined,
-        mean: meanPrice,
-        sigma1: calcBounds(1), // 68%
-        sigma2: calcBounds(2), // 95%
-        sigma3: calcBounds(3), // 99.7%
+  useEffect(() => {
+    if (!projectionParams || !projectionWorkerRef.current) return;
+    const request: ProjectionRequest = { id: ++projectionJobRef.current, params: projectionParams };
+    projectionWorkerRef.current.postMessage(request);
+  }, [projectionParams]);
+
+  // Until the worker answers a parameter change, the previous cone stays on the chart
+  const isConeCurrent = !!coneProfile && !!projectionParams && sameProjection(coneProfile.params, projectionParams);
+
+  // Projected mean and 1-3σ bands from the live spot over the horizon, starting at `start`
+  const buildProjection = useCallback((start: number): ChartPoint[] => {
+    if (!livePrice || !coneProfile) return [];
+    return coneToChart(coneProfile, livePrice, start);
+  }, [livePrice, coneProfile]);
+
+  const chartData = useMemo(() => {
+    if (!livePrice || !model) return [];
+
+    // Candle views anchor the cone at the latest (still forming) candle, replays at the replayed clock
+    const now = isCandleView || (replay && historyData.length > 0) ? historyData[historyData.length - 1].timestamp : Date.now();
+    const projectionData = buildProjection(now);
+    const steps = PROJECTION_STEPS;
+
+    // Monte Carlo overlay: GBM paths are scale-invariant, so re-anchor
+    // each sample from its original S to the live spot.
+    if (showPaths && mcResult && !mcStale && mcResult.params.steps === steps) {
+      const scale = livePrice / mcResult.params.S;
+      projectionData.forEach((point, i) => {
+        point.paths = mcResult.samples.map(sample => sample[i] * scale);
       });
     }
 
     return [...historyData, ...projectionData];
-  }, [livePrice, history, timeMinutes, model]);
+  }, [livePrice, historyData, isCandleView, replay, model, showPaths, mcResult, mcStale, buildProjection]);
+
+  // The axis runs to the end of the cone, so long horizons need dates on it too
+  const chartSpansDays = isMultiDay(resolution) ||
+    (chartData.length > 1 && chartData[chartData.length - 1].timestamp - chartData[0].timestamp > DAY_MS);
+
+  // P(S > price) at a future chart timestamp, from the same distribution as the cone
+  const probeProbability = useCallback((timestamp: number, price: number) => {
+    const start = chartData[historyData.length]?.timestamp;
+    if (!model || !livePrice || start === undefined || timestamp <= start || !(price > 0)) return null;
+    const t = (timestamp - start) / (525600 * 60 * 1000);
+    const logReturn = Math.log(price / livePrice);
+    const alt = buildAltDistribution(t);
+    const below = alt
+      ? alt.cdf(logReturn)
+      : cumulativeDistribution((logReturn - model.driftCorrection * t) / (model.sigma * Math.sqrt(t)));
+    return 1 - below;
+  }, [chartData, historyData.length, model, livePrice, buildAltDistribution]);
+
+  const moveTarget = (index: number, price: number) => {
+    if (targetMode === 'range') (index === 0 ? setRangeLower : setRangeUpper)(price);
+    else setTargetPrice(price);
+  };
+
+  // --- PINNED FORECASTS ---
+
+  const pinForecast = () => {
+    if (!model || !livePrice || isStale || isReplay || !isConeCurrent || (rangeModel && !rangeModel.isValid)) return;
+    const now = Date.now();
+    const pin: PinnedForecast = {
+      id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+      asset: assetId,
+      pinnedAt: now,
+      expiresAt: now + horizonMinutes * 60 * 1000,
+      S: livePrice,
+      target: rangeModel ? null : targetPrice,
+      range: rangeModel ? [rangeModel.lower, rangeModel.upper] : null,
+      direction: rangeModel ? 'inside' : model.direction,
+      probability: finalProbability,
+      sigma: model.sigma,
+      nu: model.driftCorrection,
+      model: MODEL_LABELS[modelKind],
+      cone: buildProjection(now).map(({ timestamp, mean, sigma1, sigma2, sigma3 }) => ({ timestamp, mean, sigma1, sigma2, sigma3 })),
+      path: [[now, livePrice]],
+      color: nextPinColor(pins),
+      status: 'live',
+    };
+    setPins(prev => [...prev, pin].slice(-MAX_PINS));
+  };
+
+  useEffect(() => savePins(pins), [pins]);
+
+  // Live pins sample the realized path and land at expiry on a clock (never on a stale or replayed price)
+  useEffect(() => {
+    if (isReplay) return;
+    const timer = setInterval(() => {
+      const now = Date.now();
+      const tick = freshTick(now);
+      if (tick) setPins(prev => updatePins(prev, assetId, tick, now));
+    }, SETTLE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isReplay, assetId, staleAfterSec]);
+
+  // Landed pins drop off the chart once they scroll out of the history window
+  const historyStart = historyData[0]?.timestamp ?? Date.now();
+  const chartPins = pins.filter(p => p.asset === assetId && !p.hidden && (p.status === 'live' || p.expiresAt >= historyStart));
+
+  // --- PROBABILITY HEATMAP ---
+
+  // Only spot, σ, μ and the model shape the grid (not the target or horizon); until the worker
+  // answers, the previous grid stays
+  const heatmapSpot = model?.S;
+  const heatmapMu = model?.mu;
+  const heatmapSigma = model?.sigma;
+  const heatmapParams = useMemo<HeatmapParams | null>(() => {
+    if (heatmapSpot === undefined || heatmapMu === undefined || heatmapSigma === undefined) return null;
+    return {
+      spot: heatmapSpot, mu: heatmapMu, sigma: heatmapSigma, modelKind, mertonParams, studentDf,
+      horizons: HEATMAP_HORIZONS, strikesPerSide: HEATMAP_STRIKES_PER_SIDE, priceDecimals: asset.priceDecimals,
+    };
+  }, [heatmapSpot, heatmapMu, heatmapSigma, modelKind, mertonParams, studentDf, asset]);
+
+  // Ticks move spot and σ many times a second; the latest parameters go out at most once per interval
+  useEffect(() => {
+    if (!heatmapParams) return;
+    const post = () => {
+      if (!heatmapWorkerRef.current) return;
+      heatmapPostedAtRef.current = Date.now();
+      const request: HeatmapRequest = { id: ++heatmapJobRef.current, params: heatmapParams };
+      heatmapWorkerRef.current.postMessage(request);
+    };
+    const wait = heatmapPostedAtRef.current + HEATMAP_THROTTLE_MS - Date.now();
+    if (wait <= 0) {
+      post();
+      return;
+    }
+    const timer = setTimeout(post, wait);
+    return () => clearTimeout(timer);
+  }, [heatmapParams]);
+
+  const selectHeatmapCell = (strike: number, minutes: number) => {
+    setTargetMode('single');
+    setTargetPrice(strike);
+    setHorizonMode('relative');
+    setTimeMinutes(minutes);
+  };
+
+  // --- POSITION RISK ---
+
+  // Same σ, ν and horizon as the cone; the worker re-evaluates the exit distribution at each slice.
+  // It is solved at an anchor spot and horizon, re-anchored once either moves past its tolerance
+  // or a level is crossed, so ticks and the expiry countdown don't re-solve it every time.
+  const hasExits = position.stop !== null || position.takeProfit !== null;
+  const exitTraded = !!livePrice && exitThroughSpot(livePrice, position);
+  useEffect(() => {
+    if (!livePrice) return;
+    const spotTolerance = hasExits ? PNL_FAN_EXIT_SPOT_TOLERANCE : PNL_FAN_SPOT_TOLERANCE;
+    setFanAnchor(prev =>
+      prev && prev.exitTraded === exitTraded &&
+      Math.abs(livePrice - prev.S) <= spotTolerance * prev.S &&
+      Math.abs(horizonMinutes - prev.minutes) <= PNL_FAN_HORIZON_TOLERANCE * prev.minutes
+        ? prev
+        : { S: livePrice, minutes: horizonMinutes, exitTraded });
+  }, [livePrice, horizonMinutes, hasExits, exitTraded]);
+
+  const fanNu = model?.driftCorrection;
+  const fanSigma = model?.sigma;
+  const positionFanParams = useMemo<PositionFanParams | null>(() => {
+    if (fanNu === undefined || fanSigma === undefined || !fanAnchor) return null;
+    const entry = position.entry ?? fanAnchor.S;
+    if (!(position.size > 0) || !(entry > 0)) return null;
+    return {
+      S: fanAnchor.S, position: { ...position, entry }, nu: fanNu, sigma: fanSigma,
+      timeMinutes: fanAnchor.minutes, steps: PNL_FAN_STEPS,
+    };
+  }, [fanNu, fanSigma, fanAnchor, position]);
+
+  useEffect(() => {
+    if (!positionFanParams || !positionFanWorkerRef.current) return;
+    const request: PositionFanRequest = { id: ++positionFanJobRef.current, params: positionFanParams };
+    positionFanWorkerRef.current.postMessage(request);
+  }, [positionFanParams]);
+
+  // Until the worker answers, the previous fan stays on the panel; between rebuilds an uncapped fan shifts with the spot
+  const positionModel = useMemo(() => {
+    if (!model || !livePrice) return null;
+    const entry = position.entry ?? livePrice;
+    if (!positionFanParams) return { entry, risk: null, fan: [], error: 'Size and entry must be positive.' };
+    if (positionFanError) return { entry, risk: null, fan: [], error: positionFanError };
+    if (exitTraded || (positionFan && !positionFan.risk)) {
+      return { entry, risk: null, fan: [], error: 'Stop or take-profit is already through the spot.' };
+    }
+    if (!positionFan) return { entry, risk: null, fan: [], error: null };
+    const shifted = shiftPositionFan(positionFan, livePrice, entry);
+    return { entry, risk: shifted.risk, fan: shifted.fan, error: null };
+  }, [model, livePrice, position, exitTraded, positionFanParams, positionFan, positionFanError]);
+
+  // --- EXPORTS ---
+
+  const exportStem = assetId.toLowerCase();
+
+  const exportParams = (): [string, string][] => {
+    const params: [string, string][] = [
+      ['Spot (S₀)', formatCurrency(livePrice!)],
+      rangeModel
+        ? ['Range (L - U)', `${formatCurrency(rangeLower)} - ${formatCurrency(rangeUpper)}`]
+        : ['Target (K)', `${formatCurrency(targetPrice)} (${model!.direction})`],
+      ['Horizon (t)', formatHorizon(horizonMinutes)],
+      ['Volatility (σ)', `${activeVolatility.toFixed(2)}% · ${volSourceLabel}`],
+      ['Drift (μ)', `${(model!.mu * 100).toFixed(2)}% · ${driftSourceLabel}`],
+      ['Model', MODEL_LABELS[modelKind]],
+      ['Z-Score', model!.zScore.toFixed(4)],
+      ['Venue', `${provider.label} ${provider.pair(assetId)}`],
+    ];
+    if (!rangeModel) params.push([`Touch Probability${altModel ? ' (GBM)' : ''}`, formatPercent(model!.touchProbability)]);
+    return params;
+  };
+
+  const exportChart = async (format: ExportFormat) => {
+    if (!model) return;
+    if (format === 'csv' || format === 'json') {
+      exportChartData(chartData, format, exportStem, {
+        asset: assetId,
+        venue: provider.label,
+        resolution,
+        model: modelKind,
+        scenario,
+        S: model.S, sigma: model.sigma, mu: model.mu, t_years: model.t_years,
+        probability: finalProbability,
+      });
+      return;
+    }
+    const svg = chartRef.current?.querySelector<SVGSVGElement>('svg.recharts-surface');
+    if (!svg) throw new Error('Chart is not rendered');
+    const headline = rangeModel
+      ? `P(${rangeLower} < ${assetId} < ${rangeUpper} in ${formatHorizon(horizonMinutes)})`
+      : `P(${assetId} ${model.direction} ${formatCurrency(targetPrice)} in ${formatHorizon(horizonMinutes)})`;
+    await exportReport(svg, {
+      title: `${provider.pair(assetId)} · ${provider.label} · ${MODEL_LABELS[modelKind]}`,
+      headline,
+      probability: finalProbability,
+      subline: altModel ? `GBM: ${formatPercent(rangeModel ? rangeModel.gbmProbability : model.probability)}` : undefined,
+      params: exportParams(),
+      generatedAt: Date.now(),
+    }, format, exportStem);
+  };
+
+  const exportNotebookMarkdown = () => {
+    if (!model || !notebook) return;
+    exportNotebook({
+      query: `If the price of ${assetId} is $${livePrice!.toFixed(2)}, what is the probability that it will be ${model.direction} $${targetPrice} in ${formatHorizon(horizonMinutes)}?`,
+      result: [finalProbabilityLabel, formatPercent(finalProbability)],
+      variables: [
+        ['Price (S₀)', livePrice!.toFixed(2)],
+        ['Target (K)', String(targetPrice)],
+        ['Volatility (σ)', `${activeVolatility.toFixed(2)}%`],
+        ['σ Source', volSourceLabel],
+        ['Time (t)', `${model.t_years.toFixed(6)} yrs`],
+        ['Drift (μ)', model.mu.toFixed(3)],
+        ['μ Source', driftSourceLabel],
+      ],
+      sections: [notebook.execution, ...notebook.sections],
+      generatedAt: Date.now(),
+    }, exportStem);
+  };
 
 
   // --- RENDER ---
 
+  // Shared with the loading screen, so a feed that never connects can be swapped or replaced by a replay
+  const providerSelect = (
+    <select
+      value={providerId}
+      onChange={(e) => setProviderId(e.target.value as ProviderId)}
+      className="bg-transparent text-[10px] font-mono text-blue-400 hover:text-blue-300 cursor-pointer outline-none"
+    >
+      {Object.values(MARKET_DATA_PROVIDERS).map(p => (
+        <option key={p.id} value={p.id} className="bg-slate-900">{p.label}</option>
+      ))}
+    </select>
+  );
+
+  const replayPanel = (
+    <ReplayPanel
+      session={replay}
+      onLoad={loadReplay}
+      onEject={ejectReplay}
+      isRecording={isRecording}
+      recordedCount={recordingRef.current?.length ?? 0}
+      onRecord={startRecording}
+      onSaveRecording={stopRecording}
+      onDiscardRecording={() => stopRecording()}
+    />
+  );
+
   if (!livePrice) {
     return (
-      <div className="min-h-screen bg-slate-950 flex flex-col items-center justify-center text-slate-400 gap-4">
+      <div className="min-h-screen bg-slate-950 flex flex-col items-center justify-center text-slate-400 gap-4 p-4">
         <Activity className="animate-pulse w-12 h-12 text-indigo-500" />
         <div className="text-lg font-mono">Initializing Feed...</div>
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          {providerSelect}
+          <span className="uppercase tracking-wider font-bold">{provider.pair(assetId)}</span>
+        </div>
+        <div className="w-full max-w-md">{replayPanel}</div>
       </div>
     );
   }
@@ -326,19 +1756,33 @@ const EtherQuantDashboard: React.FC = () => {
             <Sigma className="text-blue-400" /> EtherGBM
           </h1>
           <p className="text-slate-500 text-sm mt-2 font-medium">
-            Geometric Brownian Motion - Stochastic Ethereum Dashboard
+            Geometric Brownian Motion - Stochastic {asset.name} Dashboard
           </p>
         </div>
         
         <div className="flex items-center gap-8">
+          {/* Asset Selector */}
+          <div className="grid grid-cols-3 bg-slate-950 p-1 rounded-lg border border-slate-800">
+            {Object.values(ASSETS).map(a => (
+              <button
+                key={a.id}
+                onClick={() => selectAsset(a.id)}
+                className={`px-3 py-1.5 rounded-md text-xs font-mono font-medium ${assetId === a.id ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {a.id}
+              </button>
+            ))}
+          </div>
+
           {/* Volatility Indicator */}
            <div className="text-right hidden sm:block">
             <div className="flex items-center justify-end gap-2 mb-1">
               <span className="text-xs uppercase tracking-wider text-slate-500 font-bold">Volatility (σ)</span>
-              {!useLiveVol && <span className="text-[10px] text-blue-400 bg-blue-500/10 px-1 rounded border border-blue-500/20">MANUAL</span>}
-              {useLiveVol && isVolEstimated && <span className="text-[10px] text-yellow-500 bg-yellow-500/10 px-1 rounded border border-yellow-500/20">EST</span>}
+              {volSource === 'manual' && <span className="text-[10px] text-blue-400 bg-blue-500/10 px-1 rounded border border-blue-500/20">MANUAL</span>}
+              {isRealizedInUse && <span className="text-[10px] text-purple-400 bg-purple-500/10 px-1 rounded border border-purple-500/20">RV</span>}
+              {volSource === 'live' && !isImpliedAvailable && <span className="text-[10px] text-yellow-500 bg-yellow-500/10 px-1 rounded border border-yellow-500/20">EST</span>}
             </div>
-            <div className={`text-2xl font-mono ${useLiveVol ? 'text-slate-300' : 'text-blue-300'}`}>
+            <div className={`text-2xl font-mono ${volSource === 'manual' ? 'text-blue-300' : 'text-slate-300'}`}>
               {activeVolatility.toFixed(2)}%
             </div>
           </div>
@@ -346,10 +1790,13 @@ const EtherQuantDashboard: React.FC = () => {
           {/* Price Indicator */}
           <div className="text-right">
             <div className="flex items-center justify-end gap-2 mb-1">
-              <span className="text-xs uppercase tracking-wider text-slate-500 font-bold">ETH / USDT</span>
+              {providerSelect}
+              <span className="text-xs uppercase tracking-wider text-slate-500 font-bold">{provider.pair(assetId)}</span>
+              {!isConnected && reconnectAttempt > 0 && <span className="text-[10px] text-red-400 bg-red-500/10 px-1 rounded border border-red-500/20">RETRY #{reconnectAttempt}</span>}
+              {isStale && <span className="text-[10px] text-yellow-500 bg-yellow-500/10 px-1 rounded border border-yellow-500/20 flex items-center gap-1"><Clock size={10} /> STALE {staleSeconds}s</span>}
               {isConnected ? <Wifi size={14} className="text-emerald-500 animate-pulse" /> : <WifiOff size={14} className="text-red-500" />}
             </div>
-            <div className="text-4xl font-mono text-white tracking-tighter shadow-blue-500/20 drop-shadow-lg">
+            <div className={`text-4xl font-mono tracking-tighter shadow-blue-500/20 drop-shadow-lg ${isStale ? 'text-slate-500' : 'text-white'}`}>
               {formatCurrency(livePrice)}
             </div>
           </div>
@@ -365,6 +1812,10 @@ const EtherQuantDashboard: React.FC = () => {
           {/* CHART */}
           <div className="bg-slate-900 border border-slate-800 rounded-lg p-1 shadow-2xl h-[450px] relative flex flex-col overflow-hidden">
              
+             {coneError && (
+               <div className="absolute bottom-4 left-6 z-20 text-xs text-red-400 flex items-center gap-2"><AlertTriangle size={14} /> Cone projection failed: {coneError}</div>
+             )}
+
              {/* Legend Overlay */}
              <div className="absolute top-4 left-6 z-20 flex gap-4 pointer-events-none">
                <div className="flex items-center gap-2">
@@ -377,15 +1828,65 @@ const EtherQuantDashboard: React.FC = () => {
                     <div className="w-1.5 h-1.5 rounded-full bg-indigo-500"></div>
                     <div className="w-1.5 h-1.5 rounded-full bg-purple-500"></div>
                  </div>
-                 <span className="text-[10px] text-slate-400 font-mono uppercase">Field of Vision (1-3σ)</span>
+                 <span className="text-[10px] text-slate-400 font-mono uppercase">Field of Vision ({modelKind === 'gbm' ? '' : `${MODEL_LABELS[modelKind]} `}1-3σ)</span>
                </div>
-               <div className="flex items-center gap-2">
-                 <div className="w-3 h-0 border-t border-dashed border-emerald-400"></div>
-                 <span className="text-[10px] text-slate-400 font-mono uppercase">Target</span>
+               <div className="flex items-center gap-2" title="Drag the target line to move it">
+                 <Target size={12} className="text-emerald-400" />
+                 <span className="text-[10px] text-slate-400 font-mono uppercase">Target (drag)</span>
                </div>
+               {modelKind !== 'gbm' && (
+                 <div className="flex items-center gap-2">
+                   <div className="w-3 h-0 border-t border-dashed border-slate-400"></div>
+                   <span className="text-[10px] text-slate-400 font-mono uppercase">GBM 2-3σ</span>
+                 </div>
+               )}
+               {chartPins.length > 0 && (
+                 <div className="flex items-center gap-2">
+                   <div className="w-3 h-0 border-t border-dashed border-pink-400"></div>
+                   <span className="text-[10px] text-slate-400 font-mono uppercase">Pinned ({chartPins.length})</span>
+                 </div>
+               )}
+               {showPaths && mcResult && !mcStale && (
+                 <div className="flex items-center gap-2">
+                   <div className="w-3 h-0.5 bg-amber-500/60"></div>
+                   <span className="text-[10px] text-slate-400 font-mono uppercase">MC Paths</span>
+                 </div>
+               )}
              </div>
 
-             <div className="flex-1 w-full min-h-0 pt-4 pr-4">
+             {/* Resolution & Export */}
+             <div className="absolute top-3 right-20 z-20 flex flex-col items-end gap-1.5">
+               <div className="flex bg-slate-950/80 p-0.5 rounded-md border border-slate-800">
+                 {(['tick', ...Object.keys(CANDLE_RESOLUTIONS)] as ChartResolution[]).map(r => (
+                   <button
+                     key={r}
+                     onClick={() => setResolution(r)}
+                     className={`px-2 py-0.5 rounded text-[10px] font-mono uppercase ${resolution === r ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                   >
+                     {r}
+                   </button>
+                 ))}
+               </div>
+               <div className="flex items-center gap-1.5">
+                 <button
+                   onClick={() => setPlaceOnClick(v => !v)}
+                   className={`p-1 rounded border ${placeOnClick ? 'border-emerald-500/50 text-emerald-400 bg-emerald-900/30' : 'border-slate-800 text-slate-500 hover:text-slate-300 bg-slate-950/80'}`}
+                   title="Click on the chart to place the target"
+                 >
+                   <MousePointer2 size={12} />
+                 </button>
+                 <button
+                   onClick={() => setShowProbe(v => !v)}
+                   className={`p-1 rounded border ${showProbe ? 'border-blue-500/50 text-blue-400 bg-blue-900/30' : 'border-slate-800 text-slate-500 hover:text-slate-300 bg-slate-950/80'}`}
+                   title="Show P(above / below) the hovered price in the cone"
+                 >
+                   <Eye size={12} />
+                 </button>
+                 <ExportMenu onExport={exportChart} />
+               </div>
+             </div>
+
+             <div ref={chartRef} className="flex-1 w-full min-h-0 pt-4 pr-4">
                <ResponsiveContainer width="100%" height="100%">
                   <ComposedChart data={chartData}>
                     <defs>
@@ -409,7 +1910,9 @@ const EtherQuantDashboard: React.FC = () => {
                       dataKey="timestamp" 
                       type="number" 
                       domain={['dataMin', 'dataMax']} 
-                      tickFormatter={(unix) => new Date(unix).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+                      tickFormatter={(unix) => chartSpansDays
+                        ? new Date(unix).toLocaleString([], {month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'})
+                        : new Date(unix).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
                       stroke="#334155"
                       tick={{fill: '#64748b', fontSize: 10}}
                       minTickGap={40}
@@ -426,25 +1929,123 @@ const EtherQuantDashboard: React.FC = () => {
                       axisLine={false}
                     />
                     
-                    <Tooltip 
-                      contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b', borderRadius: '4px', color: '#f8fafc' }}
-                      itemStyle={{ fontSize: '12px', fontFamily: 'monospace' }}
-                      labelFormatter={(l) => new Date(l).toLocaleTimeString()}
-                      formatter={(val: any, name) => {
-                         if(val == null) return [undefined, undefined];
-                         if(Array.isArray(val)) return [`$${val[0].toFixed(2)} - $${val[1].toFixed(2)}`, name];
-                         return [`$${Number(val).toFixed(2)}`, name];
-                      }}
+                    <Tooltip
+                      content={(props: any) => (
+                        <ProbeTooltip
+                          {...props}
+                          formatLabel={(l) => chartSpansDays ? new Date(l).toLocaleString() : new Date(l).toLocaleTimeString()}
+                          probe={showProbe ? probeProbability : null}
+                        />
+                      )}
                     />
                     
+                    {/* Candle low-high band behind everything */}
+                    {isCandleView && (
+                      <Area type="stepAfter" dataKey="range" stroke="none" fill="#3b82f6" fillOpacity={0.15} name="Low - High" connectNulls={false} isAnimationActive={false} />
+                    )}
+
                     {/* Z-Order: Render widest cone first (background) */}
                     <Area type="monotone" dataKey="sigma3" stroke="none" fill="url(#sigma3Gradient)" name="3σ (99.7%)" connectNulls={true} />
                     <Area type="monotone" dataKey="sigma2" stroke="none" fill="url(#sigma2Gradient)" name="2σ (95%)" connectNulls={true} />
                     <Area type="monotone" dataKey="sigma1" stroke="none" fill="url(#sigma1Gradient)" name="1σ (68%)" connectNulls={true} />
                     
+                    {/* Plain GBM 2σ/3σ edges for comparison with the fat-tailed cone */}
+                    {modelKind !== 'gbm' && [0, 1, 2, 3].map(i => (
+                      <Line
+                        key={`gbm-${i}`}
+                        type="monotone"
+                        dataKey={(d: ChartPoint) => d.gbm?.[i]}
+                        stroke="#94a3b8"
+                        strokeWidth={1}
+                        strokeDasharray="2 3"
+                        strokeOpacity={i === 0 || i === 3 ? 0.35 : 0.6}
+                        dot={false}
+                        connectNulls={false}
+                        isAnimationActive={false}
+                        tooltipType="none"
+                        legendType="none"
+                      />
+                    ))}
+
+                    {/* Monte Carlo sample paths */}
+                    {chartData.length > 0 && chartData[chartData.length - 1].paths?.map((_, i) => (
+                      <Line
+                        key={`mc-${i}`}
+                        type="linear"
+                        dataKey={(d: ChartPoint) => d.paths?.[i]}
+                        stroke="#f59e0b"
+                        strokeWidth={1}
+                        strokeOpacity={0.25}
+                        dot={false}
+                        connectNulls={false}
+                        isAnimationActive={false}
+                        tooltipType="none"
+                        legendType="none"
+                      />
+                    ))}
+
                     <Line type="monotone" dataKey="mean" stroke="#a5b4fc" strokeWidth={1} strokeDasharray="3 3" strokeOpacity={0.5} dot={false} name="Mean" connectNulls={true} />
+
+                    {/* Pinned forecasts: frozen 1σ/2σ bands, mean and target, with the realized path walking into them */}
+                    {chartPins.map(pin => (
+                      <React.Fragment key={pin.id}>
+                        <Area data={pin.cone} type="monotone" dataKey="sigma2" stroke={pin.color} strokeOpacity={0.45} strokeDasharray="4 3" fill={pin.color} fillOpacity={0.03} isAnimationActive={false} tooltipType="none" legendType="none" />
+                        <Area data={pin.cone} type="monotone" dataKey="sigma1" stroke={pin.color} strokeOpacity={0.6} strokeDasharray="4 3" fill={pin.color} fillOpacity={0.06} isAnimationActive={false} tooltipType="none" legendType="none" />
+                        <Line data={pin.cone} type="monotone" dataKey="mean" stroke={pin.color} strokeWidth={1} strokeDasharray="2 3" strokeOpacity={0.7} dot={false} isAnimationActive={false} tooltipType="none" legendType="none" />
+                        <Line
+                          data={pin.path.map(([timestamp, price]) => ({ timestamp, price }))}
+                          type="linear"
+                          dataKey="price"
+                          stroke={pin.color}
+                          strokeWidth={1.5}
+                          dot={false}
+                          isAnimationActive={false}
+                          tooltipType="none"
+                          legendType="none"
+                        />
+                        {pin.target !== null && (
+                          <ReferenceLine segment={[{ x: pin.pinnedAt, y: pin.target }, { x: pin.expiresAt, y: pin.target }]} stroke={pin.color} strokeDasharray="4 2" strokeOpacity={0.8} />
+                        )}
+                        {pin.range && (
+                          <ReferenceArea x1={pin.pinnedAt} x2={pin.expiresAt} y1={pin.range[0]} y2={pin.range[1]} {...pinRangeStyle(pin.color)} />
+                        )}
+                        {pin.status === 'landed' && (
+                          <ReferenceDot
+                            x={pin.realizedAt}
+                            y={pin.realizedPrice}
+                            r={4}
+                            {...pinDotStyle(pin.color)}
+                            label={{ value: `${pin.zScore! >= 0 ? '+' : ''}${pin.zScore!.toFixed(2)}σ`, position: 'top', fill: pin.color, fontSize: 10 }}
+                          />
+                        )}
+                      </React.Fragment>
+                    ))}
                     
-                    <ReferenceLine y={targetPrice} stroke={targetPrice > livePrice ? "#10b981" : "#ef4444"} strokeDasharray="4 2" strokeOpacity={0.8} />
+                    {rangeModel ? (
+                      rangeModel.isValid && (
+                        <ReferenceArea y1={rangeModel.lower} y2={rangeModel.upper} {...RANGE_BAND_STYLE} />
+                      )
+                    ) : (
+                      <ReferenceLine y={targetPrice} stroke={targetPrice > livePrice ? "#10b981" : "#ef4444"} strokeDasharray="4 2" strokeOpacity={0.8} />
+                    )}
+
+                    {/* Expiry at the end of the cone */}
+                    {horizonMode === 'expiry' && chartData.length > historyData.length && (
+                      <ReferenceLine
+                        x={chartData[chartData.length - 1].timestamp}
+                        stroke="#a78bfa"
+                        strokeDasharray="2 4"
+                        label={{ value: expiryKind(expiry) ? expiryCode(expiry) : 'Expiry', position: 'insideTopLeft', fill: '#a78bfa', fontSize: 10 }}
+                      />
+                    )}
+
+                    {/* Position exits from the risk panel */}
+                    {positionModel?.risk && position.stop !== null && (
+                      <ReferenceLine y={position.stop} stroke="#f43f5e" strokeDasharray="6 3" strokeOpacity={0.7} label={{ value: 'SL', position: 'insideLeft', fill: '#f43f5e', fontSize: 10 }} />
+                    )}
+                    {positionModel?.risk && position.takeProfit !== null && (
+                      <ReferenceLine y={position.takeProfit} stroke="#10b981" strokeDasharray="6 3" strokeOpacity={0.7} label={{ value: 'TP', position: 'insideLeft', fill: '#10b981', fontSize: 10 }} />
+                    )}
 
                     {/* The Snake (Live Price) */}
                     <Line 
@@ -452,12 +2053,19 @@ const EtherQuantDashboard: React.FC = () => {
                       dataKey="price" 
                       stroke="#3b82f6" 
                       strokeWidth={3} 
-                      dot={(props) => <PulsingDot {...props} dataLength={history.length} />}
-                      name="ETH Price" 
+                      dot={(props) => <PulsingDot {...props} dataLength={historyData.length} />}
+                      name={`${assetId} Price`}
                       connectNulls={false}
                       isAnimationActive={false}
                     />
 
+                    {/* Drag handles on the target (or L/U), plus click-to-place */}
+                    <TargetDragLayer
+                      levels={targetMode === 'range' ? [rangeLower, rangeUpper] : [targetPrice]}
+                      onMove={moveTarget}
+                      placeOnClick={placeOnClick}
+                    />
+
                     <Brush 
                       dataKey="timestamp" 
                       height={20} 
@@ -471,22 +2079,71 @@ const EtherQuantDashboard: React.FC = () => {
              </div>
           </div>
 
+          {/* PINNED FORECASTS */}
+          <PinnedForecastsPanel
+            pins={pins}
+            onPin={pinForecast}
+            onToggle={(id) => setPins(prev => prev.map(p => (p.id === id ? { ...p, hidden: !p.hidden } : p)))}
+            onDelete={(id) => setPins(prev => prev.filter(p => p.id !== id))}
+            onClear={() => setPins([])}
+            canPin={!!model && !isStale && !isReplay && isConeCurrent && !(rangeModel && !rangeModel.isValid)}
+          />
+
+          {/* POSITION RISK */}
+          {model && positionModel && (
+            <PositionRiskPanel
+              position={position}
+              onChange={(patch) => setPosition(prev => ({ ...prev, ...patch }))}
+              spot={livePrice}
+              entry={positionModel.entry}
+              risk={positionModel.risk}
+              fan={positionModel.fan}
+              error={positionModel.error}
+              sigma={model.sigma}
+              nu={model.driftCorrection}
+              timeMinutes={horizonMinutes}
+            />
+          )}
+
+          {/* PROBABILITY HEATMAP */}
+          {heatmapError && (
+            <div className="text-xs text-red-400 flex items-center gap-2"><AlertTriangle size={14} /> Heatmap failed: {heatmapError}</div>
+          )}
+          {heatmap && (
+            <ProbabilityHeatmap
+              grid={heatmap}
+              modelLabel={MODEL_LABELS[modelKind]}
+              targetPrice={targetMode === 'single' ? targetPrice : null}
+              timeMinutes={horizonMinutes}
+              onSelect={selectHeatmapCell}
+            />
+          )}
+
           {/* QUANT NOTEBOOK: SHOW YOUR WORK */}
-          {model && (
+          {model && notebook && (
             <div className="bg-slate-900 border border-slate-800 rounded-lg p-6 shadow-xl relative overflow-hidden">
               <div className="absolute top-0 left-0 w-1 h-full bg-gradient-to-b from-blue-500 to-indigo-500"></div>
               
-              <div className="flex items-center gap-2 mb-6 text-slate-200">
-                <BookOpen size={18} className="text-blue-400"/>
-                <h3 className="font-bold text-lg">Solution Notebook</h3>
+              <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-2 text-slate-200">
+                  <BookOpen size={18} className="text-blue-400"/>
+                  <h3 className="font-bold text-lg">Solution Notebook</h3>
+                </div>
+                <button
+                  onClick={exportNotebookMarkdown}
+                  className="text-[10px] font-mono text-slate-400 hover:text-white flex items-center gap-1"
+                  title="All steps and values as Markdown"
+                >
+                  <FileText size={12} /> Export .md
+                </button>
               </div>
 
               {/* Natural Language Problem Statement */}
               <div className="mb-6 bg-slate-950 p-4 rounded-lg border border-slate-800/50 text-slate-300 font-mono text-sm leading-relaxed">
                 <span className="text-blue-400 font-bold mr-2">QUERY &gt;</span>
-                "If the price of ETH is <span className="text-white font-bold">${livePrice.toFixed(2)}</span>, 
+                "If the price of {assetId} is <span className="text-white font-bold">${livePrice.toFixed(2)}</span>, 
                 what is the probability that it will be <span className={model.direction === 'above' ? 'text-emerald-400' : 'text-red-400'}>{model.direction}</span> 
-                <span className="text-white font-bold"> ${targetPrice}</span> in <span className="text-white font-bold">{timeMinutes} minutes</span>?"
+                <span className="text-white font-bold"> ${targetPrice}</span> in <span className="text-white font-bold">{formatHorizon(horizonMinutes)}</span>?"
               </div>
 
               {/* Math Grid */}
@@ -497,37 +2154,79 @@ const EtherQuantDashboard: React.FC = () => {
                       <span>Price (S₀)</span> <span className="text-white text-right">{livePrice.toFixed(2)}</span>
                       <span>Target (K)</span> <span className="text-white text-right">{targetPrice}</span>
                       <span>Volatility (σ)</span> <span className="text-white text-right">{activeVolatility.toFixed(2)}%</span>
+                      <span>σ Source</span> <span className="text-slate-300 text-right text-xs self-center">{volSourceLabel}</span>
                       <span>Time (t)</span> <span className="text-white text-right">{model.t_years.toFixed(6)} yrs</span>
-                      <span>Bias (μ)</span> <span className={`text-right ${bias === 'bull' ? 'text-emerald-400' : bias === 'bear' ? 'text-red-400' : 'text-slate-500'}`}>{model.mu.toFixed(3)}</span>
+                      <span>Drift (μ)</span> <span className={`text-right ${model.mu > 0 ? 'text-emerald-400' : model.mu < 0 ? 'text-red-400' : 'text-slate-500'}`}>{model.mu.toFixed(3)}</span>
+                      <span>μ Source</span> <span className={`text-right text-xs self-center ${isDriftUnavailable ? 'text-yellow-500' : 'text-slate-300'}`}>{driftSourceLabel}</span>
                    </div>
                 </div>
 
                 <div>
-                   <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-4 border-b border-slate-800 pb-2">2. Execution</h4>
-                   
-                   <MathStep 
-                      label="A. Log Distance" 
-                      formula="ln(K / S₀)" 
-                      result={model.logReturn.toFixed(5)} 
-                   />
-
-                   <MathStep 
-                      label="B. Drift Adjusted" 
-                      formula="(μ - 0.5σ²) * t" 
-                      result={model.driftTerm.toFixed(5)} 
-                      desc="Ito's correction applied to drift over time t."
-                   />
-
-                   <MathStep 
-                      label="C. Z-Score" 
-                      formula="(LogDist - Drift) / (σ√t)" 
-                      result={model.zScore.toFixed(4)} 
-                      desc="Standard deviations away from the mean."
-                   />
+                   <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-4 border-b border-slate-800 pb-2">{notebook.execution.title}</h4>
+                   {notebook.execution.steps.map(step => <MathStep key={step.label} {...step} />)}
                 </div>
               </div>
+
+              {notebook.sections.map(section => (
+                <div key={section.title} className="mt-8">
+                   <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-4 border-b border-slate-800 pb-2">{section.title}</h4>
+                   <div className={`grid grid-cols-1 ${NOTEBOOK_COLUMNS[section.columns]} gap-x-8`}>
+                     {section.steps.map(step => <MathStep key={step.label} {...step} />)}
+                   </div>
+                </div>
+              ))}
             </div>
           )}
+
+          {/* OPTION PRICING */}
+          {model && pricing && (
+            <PricingPanel
+              pricing={pricing}
+              strike={model.K}
+              rate={model.mu}
+              isCall={model.direction === 'above'}
+            />
+          )}
+
+          {/* STRIKE LADDER */}
+          {model && (
+            <StrikeLadder
+              spot={livePrice}
+              targetPrice={targetPrice}
+              priceDecimals={asset.priceDecimals}
+              evaluate={evaluateLadderStrike}
+              onSelectStrike={(K) => {
+                setTargetPrice(K);
+                setTargetMode('single');
+              }}
+            />
+          )}
+
+          {/* CALIBRATION TRACKER */}
+          <CalibrationPanel
+            forecasts={forecasts}
+            autoSnapshotMinutes={autoSnapshotMinutes}
+            onAutoSnapshotChange={setAutoSnapshotMinutes}
+            onSnapshot={snapshotForecast}
+            onClear={() => setForecasts([])}
+            canSnapshot={!!model && !isStale && !isReplay}
+          />
+
+          <AlertsPanel
+            rules={alertRules}
+            log={alertLog}
+            onAddRule={addAlertRule}
+            onToggleRule={(id) => setAlertRules(prev => prev.map(r => (r.id === id ? { ...r, enabled: !r.enabled } : r)))}
+            onRemoveRule={(id) => {
+              alertStatesRef.current.delete(id);
+              setAlertRules(prev => prev.filter(r => r.id !== id));
+            }}
+            onClearLog={() => setAlertLog([])}
+            soundEnabled={alertSound}
+            onSoundChange={setAlertSound}
+            permission={notificationPermission}
+            onRequestPermission={enableNotifications}
+          />
         </div>
 
         {/* RIGHT COLUMN: CONTROLS (4 Cols) */}
@@ -539,34 +2238,182 @@ const EtherQuantDashboard: React.FC = () => {
                <Settings className="text-blue-500" size={18} /> Model Parameters
             </div>
 
-            {/* Drift Bias */}
+            {/* Drift */}
             <div>
-              <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 block">Market Bias (Drift)</label>
+              <div className="flex justify-between items-center mb-2">
+                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Drift (μ)</label>
+                {model && (
+                  <span className={`text-xs font-mono flex items-center gap-1 ${model.mu > 0 ? 'text-emerald-400' : model.mu < 0 ? 'text-red-400' : 'text-slate-500'}`}>
+                    {model.mu > 0 ? <TrendingUp size={12} /> : model.mu < 0 ? <TrendingDown size={12} /> : null}
+                    {(model.mu * 100).toFixed(2)}% / yr
+                  </span>
+                )}
+              </div>
+              <div className="grid grid-cols-4 bg-slate-950 p-1 rounded-lg border border-slate-800">
+                {(Object.keys(DRIFT_SOURCES) as DriftSource[]).map(source => (
+                  <button
+                    key={source}
+                    onClick={() => setDriftSource(source)}
+                    className={`py-2 rounded-md text-xs font-medium ${driftSource === source ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                    title={DRIFT_SOURCES[source].label}
+                  >
+                    {DRIFT_SOURCES[source].short}
+                  </button>
+                ))}
+              </div>
+
+              {(driftSource === 'manual' || driftSource === 'riskNeutral') && (
+                <div className="relative mt-2">
+                  <input
+                    type="number"
+                    step="0.5"
+                    value={driftSource === 'manual' ? manualDrift : riskFreeRate}
+                    onChange={(e) => (driftSource === 'manual' ? setManualDrift : setRiskFreeRate)(parseFloat(e.target.value) || 0)}
+                    className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-white font-mono text-sm focus:border-blue-500 outline-none"
+                  />
+                  <span className="absolute right-3 top-2 text-slate-500 text-xs font-mono">{driftSource === 'manual' ? 'μ' : 'r'} % / yr</span>
+                </div>
+              )}
+
+              {driftSource === 'ewma' && (
+                <div className="grid grid-cols-4 gap-1 mt-2">
+                  {DRIFT_LOOKBACKS.map(l => (
+                    <button
+                      key={l.minutes}
+                      onClick={() => setDriftLookback(l.minutes)}
+                      className={`py-1 rounded text-[10px] font-mono border ${driftLookback === l.minutes ? 'border-blue-500/50 text-blue-300' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+                    >
+                      {l.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {isDriftUnavailable && (
+                <p className="text-[10px] text-yellow-500 mt-2 font-mono">
+                  {driftSource === 'ewma'
+                    ? 'Not enough stored 1m bars yet; using μ = 0.'
+                    : `No funding reading for ${asset.perpInstrument}; using μ = 0.`}
+                </p>
+              )}
+            </div>
+
+            {/* Distribution Model */}
+            <div>
+              <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 block">Return Distribution</label>
               <div className="grid grid-cols-3 bg-slate-950 p-1 rounded-lg border border-slate-800">
-                <button onClick={() => setBias('bear')} className={`py-2 rounded-md text-xs font-medium flex items-center justify-center gap-1 ${bias === 'bear' ? 'bg-red-900/30 text-red-400 border border-red-500/30' : 'text-slate-500 hover:text-slate-300'}`}><TrendingDown size={14} /> Bear</button>
-                <button onClick={() => setBias('neutral')} className={`py-2 rounded-md text-xs font-medium ${bias === 'neutral' ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}>Neutral</button>
-                <button onClick={() => setBias('bull')} className={`py-2 rounded-md text-xs font-medium flex items-center justify-center gap-1 ${bias === 'bull' ? 'bg-emerald-900/30 text-emerald-400 border border-emerald-500/30' : 'text-slate-500 hover:text-slate-300'}`}><TrendingUp size={14} /> Bull</button>
+                {(Object.keys(MODEL_LABELS) as ModelKind[]).map(kind => (
+                  <button
+                    key={kind}
+                    onClick={() => setModelKind(kind)}
+                    className={`py-2 rounded-md text-xs font-medium ${modelKind === kind ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                  >
+                    {MODEL_LABELS[kind]}
+                  </button>
+                ))}
               </div>
+
+              {modelKind === 'merton' && (
+                <div className="grid grid-cols-3 gap-2 mt-2">
+                  {([
+                    ['lambda', 'λ / yr', '1'],
+                    ['jumpMean', 'Mean m', '0.005'],
+                    ['jumpVol', 'Vol δ', '0.005'],
+                  ] as const).map(([key, label, step]) => (
+                    <div key={key}>
+                      <span className="text-[10px] text-slate-500 font-mono">{label}</span>
+                      <input
+                        type="number"
+                        step={step}
+                        value={mertonParams[key]}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value) || 0;
+                          // Intensity and jump vol can't be negative; the mean jump can
+                          setMertonParams(prev => ({ ...prev, [key]: key === 'jumpMean' ? value : Math.max(0, value) }));
+                        }}
+                        className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-white font-mono text-xs focus:border-blue-500 outline-none"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {modelKind === 'studentT' && (
+                <div className="mt-2">
+                  <span className="text-[10px] text-slate-500 font-mono">Degrees of freedom (df &gt; 2)</span>
+                  <input
+                    type="number"
+                    step="0.5"
+                    min="2.1"
+                    value={studentDf}
+                    onChange={(e) => setStudentDf(Math.max(2.1, parseFloat(e.target.value) || 2.1))}
+                    className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-white font-mono text-sm focus:border-blue-500 outline-none"
+                  />
+                </div>
+              )}
             </div>
 
             {/* Volatility */}
             <div>
-              <div className="flex justify-between mb-2">
-                 <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Volatility Source</label>
-                 <button 
-                  onClick={() => setUseLiveVol(!useLiveVol)} 
-                  className="text-[10px] font-mono text-blue-400 hover:text-blue-300 underline cursor-pointer"
-                 >
-                   {useLiveVol ? 'Switch to Manual' : 'Switch to Live'}
-                 </button>
+              <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 block">Volatility Source</label>
+              <div className="grid grid-cols-3 bg-slate-950 p-1 rounded-lg border border-slate-800 mb-2">
+                {(['live', 'realized', 'manual'] as VolSource[]).map(source => (
+                  <button
+                    key={source}
+                    onClick={() => setVolSource(source)}
+                    className={`py-2 rounded-md text-xs font-medium capitalize ${volSource === source ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                  >
+                    {source}
+                  </button>
+                ))}
               </div>
-              
-              {useLiveVol ? (
-                 <div className="bg-slate-950 border border-slate-800 rounded px-3 py-2 text-slate-400 text-sm font-mono flex justify-between items-center opacity-70">
-                    <span>API (Deribit)</span>
-                    <span>{liveVol.toFixed(2)}%</span>
-                 </div>
-              ) : (
+
+              {volSource === 'live' && (
+                <div className="space-y-2">
+                   <div className="bg-slate-950 border border-slate-800 rounded px-3 py-2 text-slate-400 text-sm font-mono flex justify-between items-center opacity-70">
+                      <span>{termVol ? `Term · ${formatHorizon(horizonMinutes)}` : isDvolAvailable ? 'API (Deribit DVOL)' : `Fallback: ${volSourceLabel}`}</span>
+                      <span>{activeVolatility.toFixed(2)}%</span>
+                   </div>
+                   {termStructure && termVol && (
+                     <TermStructureChart points={termStructure} horizonYears={horizonMinutes / 525600} horizonVol={termVol.iv} />
+                   )}
+                </div>
+              )}
+
+              {volSource === 'realized' && (
+                <div className="space-y-2">
+                   <select
+                     value={rvEstimator}
+                     onChange={(e) => setRvEstimator(e.target.value as VolEstimator)}
+                     className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-white font-mono text-sm focus:border-blue-500 outline-none"
+                   >
+                     {Object.entries(VOL_ESTIMATORS).map(([id, e]) => <option key={id} value={id}>{e.label}</option>)}
+                   </select>
+                   <div className="grid grid-cols-2 gap-2">
+                     <select
+                       value={rvIntervalMs}
+                       onChange={(e) => setRvIntervalMs(parseInt(e.target.value))}
+                       className="bg-slate-950 border border-slate-700 rounded px-3 py-2 text-white font-mono text-sm focus:border-blue-500 outline-none"
+                     >
+                       {RV_INTERVALS.map(i => <option key={i.ms} value={i.ms}>{i.label} bars</option>)}
+                     </select>
+                     <input
+                       type="number"
+                       min="2"
+                       value={rvLookback}
+                       onChange={(e) => setRvLookback(Math.max(2, parseInt(e.target.value) || 2))}
+                       className="bg-slate-950 border border-slate-700 rounded px-3 py-2 text-white font-mono text-sm focus:border-blue-500 outline-none"
+                       title="Lookback (bars)"
+                     />
+                   </div>
+                   <div className="bg-slate-950 border border-slate-800 rounded px-3 py-2 text-slate-400 text-sm font-mono flex justify-between items-center opacity-70">
+                      <span>Realized</span>
+                      <span>{realizedVol !== null ? `${realizedVol.toFixed(2)}%` : 'Collecting...'}</span>
+                   </div>
+                </div>
+              )}
+
+              {volSource === 'manual' && (
                 <div className="space-y-2">
                    <div className="flex gap-2">
                       <input 
@@ -588,7 +2435,44 @@ const EtherQuantDashboard: React.FC = () => {
 
             {/* Target Price */}
             <div>
-               <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 block">Target Price ($)</label>
+               <div className="flex justify-between items-center mb-2">
+                 <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{targetMode === 'range' ? 'Price Range ($)' : 'Target Price ($)'}</label>
+                 <div className="flex gap-2">
+                   {(['single', 'range'] as TargetMode[]).map(mode => (
+                     <button
+                       key={mode}
+                       onClick={() => selectTargetMode(mode)}
+                       className={`text-[10px] font-mono capitalize ${targetMode === mode ? 'text-blue-400 underline' : 'text-slate-500 hover:text-slate-300'}`}
+                     >
+                       {mode}
+                     </button>
+                   ))}
+                 </div>
+               </div>
+
+               {targetMode === 'range' ? (
+                 <div className="space-y-2">
+                   <div className="grid grid-cols-2 gap-2">
+                     <input
+                        type="number"
+                        value={rangeLower}
+                        onChange={(e) => setRangeLower(parseFloat(e.target.value) || 0)}
+                        className="w-full bg-slate-950 border border-slate-700 rounded-lg py-3 px-4 text-white font-mono focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none transition-all"
+                        title="Lower bound (L)"
+                     />
+                     <input
+                        type="number"
+                        value={rangeUpper}
+                        onChange={(e) => setRangeUpper(parseFloat(e.target.value) || 0)}
+                        className="w-full bg-slate-950 border border-slate-700 rounded-lg py-3 px-4 text-white font-mono focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none transition-all"
+                        title="Upper bound (U)"
+                     />
+                   </div>
+                   {rangeModel && !rangeModel.isValid && (
+                     <div className="text-xs text-red-400 flex items-center gap-2"><AlertTriangle size={12} /> Lower bound must be positive and below upper.</div>
+                   )}
+                 </div>
+               ) : (
                <div className="relative">
                  <input 
                     type="number"
@@ -603,24 +2487,111 @@ const EtherQuantDashboard: React.FC = () => {
                    }
                  </div>
                </div>
+               )}
             </div>
 
             {/* Time */}
             <div>
-               <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 block">Time Horizon ({timeMinutes} min)</label>
-               <input 
-                  type="range"
+               <div className="flex justify-between items-center mb-2">
+                 <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+                   {horizonMode === 'expiry'
+                     ? isExpired ? 'Expiry (expired)' : `Expiry (in ${formatHorizon(horizonMinutes)})`
+                     : `Time Horizon (${formatHorizon(timeMinutes)})`}
+                 </label>
+                 <div className="flex gap-2">
+                   {(['relative', 'expiry'] as HorizonMode[]).map(mode => (
+                     <button
+                       key={mode}
+                       onClick={() => selectHorizonMode(mode)}
+                       className={`text-[10px] font-mono capitalize ${horizonMode === mode ? 'text-blue-400 underline' : 'text-slate-500 hover:text-slate-300'}`}
+                     >
+                       {mode}
+                     </button>
+                   ))}
+                 </div>
+               </div>
+
+               {horizonMode === 'expiry' ? (
+                 <div className="space-y-2">
+                   <select
+                     value={expiryKind(expiry) ? expiry : ''}
+                     onChange={(e) => setExpiry(Number(e.target.value))}
+                     className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-white font-mono text-sm focus:border-blue-500 outline-none"
+                   >
+                     {!expiryKind(expiry) && <option value="" disabled>Custom date</option>}
+                     {upcomingExpiries(clock).map(e => (
+                       <option key={e.timestamp} value={e.timestamp}>
+                         {e.code} · {EXPIRY_KINDS[e.kind].label} · {formatExpiry(e.timestamp)}
+                       </option>
+                     ))}
+                   </select>
+                   <input
+                     type="datetime-local"
+                     value={expiry > 0 ? toLocalInput(expiry) : ''}
+                     onChange={(e) => {
+                       const timestamp = new Date(e.target.value).getTime();
+                       if (Number.isFinite(timestamp)) setExpiry(timestamp);
+                     }}
+                     className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-white font-mono text-sm focus:border-blue-500 outline-none"
+                   />
+                   <div className="text-[10px] font-mono text-slate-500">
+                     {isExpired
+                       ? 'Custom expiry has passed; modelling the last minute.'
+                       : `${expiryKind(expiry) ? `Deribit ${expiryCode(expiry)}` : 'Custom'} · 08:00 UTC listings roll to the next in their cycle`}
+                   </div>
+                 </div>
+               ) : (
+                 <input 
+                    type="range"
+                    min="0"
+                    max={HORIZON_SLIDER_STEPS}
+                    value={horizonToSlider(timeMinutes)}
+                    onChange={(e) => setTimeMinutes(sliderToHorizon(parseInt(e.target.value)))}
+                    className="w-full h-1.5 bg-slate-800 rounded-full appearance-none cursor-pointer accent-blue-500"
+                 />
+               )}
+            </div>
+
+            {/* Feed Throughput */}
+            <div>
+               <div className="flex items-center justify-between mb-2">
+                 <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">UI Update Rate</label>
+                 <button
+                   onClick={() => setShowPerfHud(v => !v)}
+                   className={`text-[10px] font-mono flex items-center gap-1 ${showPerfHud ? 'text-blue-400' : 'text-slate-500 hover:text-slate-300'}`}
+                   title="Ticks/s, render time and dropped frames"
+                 >
+                   <Activity size={12} /> HUD
+                 </button>
+               </div>
+               <div className="grid grid-cols-4 bg-slate-950 p-1 rounded-lg border border-slate-800">
+                 {TICK_INTERVALS.map(({ value, label }) => (
+                   <button
+                     key={label}
+                     onClick={() => setTickInterval(value)}
+                     className={`py-1 text-xs font-medium rounded ${tickInterval === value ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                   >
+                     {label}
+                   </button>
+                 ))}
+               </div>
+            </div>
+
+            {/* Feed Staleness */}
+            <div>
+               <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 block">Stale Feed After (sec)</label>
+               <input
+                  type="number"
                   min="1"
-                  max="1440" 
-                  value={timeMinutes}
-                  onChange={(e) => setTimeMinutes(parseInt(e.target.value))}
-                  className="w-full h-1.5 bg-slate-800 rounded-full appearance-none cursor-pointer accent-blue-500"
+                  value={staleAfterSec}
+                  onChange={(e) => setStaleAfterSec(Math.max(1, parseInt(e.target.value) || 1))}
+                  className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-white font-mono text-sm focus:border-blue-500 outline-none"
                />
             </div>
           </div>
 
           {/* FINAL RESULT CARD */}
-          <div className="relative overflow-hidden rounded-lg border border-blue-500/30 shadow-[0_0_30px_rgba(37,99,235,0.15)] group">
+          <div className={`relative overflow-hidden rounded-lg border border-blue-500/30 shadow-[0_0_30px_rgba(37,99,235,0.15)] group transition-all ${isStale ? 'opacity-50 grayscale' : ''}`}>
              <div className="absolute inset-0 bg-gradient-to-br from-indigo-950 to-slate-950 z-0"></div>
              
              <div className="relative z-10 p-6 flex flex-col items-center text-center">
@@ -628,19 +2599,155 @@ const EtherQuantDashboard: React.FC = () => {
                   <Calculator className="text-blue-400" size={24} />
                </div>
 
-               <h3 className="text-slate-400 text-sm font-medium mb-1 uppercase tracking-widest">Final Probability</h3>
+               <h3 className="text-slate-400 text-sm font-medium mb-1 uppercase tracking-widest">{finalProbabilityLabel}</h3>
                <div className="text-5xl font-bold text-white tracking-tight mb-2 font-mono">
-                 {model ? (model.probability * 100).toFixed(2) : '0.0'}%
+                 {model ? (finalProbability * 100).toFixed(2) : '0.0'}%
                </div>
+               {rangeModel && rangeModel.isValid && (
+                 <p className="text-xs font-mono text-slate-400 mb-1">{rangeModel.lower} &lt; Sₜ &lt; {rangeModel.upper}</p>
+               )}
 
                <p className="text-xs text-slate-500 leading-relaxed max-w-[240px]">
-                 Based on {activeVolatility.toFixed(0)}% volatility and GBM distribution.
+                 Based on {activeVolatility.toFixed(0)}% volatility and {MODEL_LABELS[modelKind]} distribution.
                </p>
+               {model && altModel && !(rangeModel && !rangeModel.isValid) && (
+                 <p className="text-xs font-mono text-slate-400 mt-1">GBM: {formatPercent(rangeModel ? rangeModel.gbmProbability : model.probability)}</p>
+               )}
+               {isStale && (
+                 <p className="text-xs text-yellow-500 mt-2 flex items-center gap-1">
+                   <AlertTriangle size={12} /> Last trade {staleSeconds}s ago, spot may be outdated.
+                 </p>
+               )}
+
+               {/* Touch Probability */}
+               {!rangeModel && (
+               <div className="w-full mt-5 pt-5 border-t border-slate-800 flex items-center justify-between">
+                 <div className="flex items-center gap-2 text-left">
+                   <Target className="text-emerald-400" size={18} />
+                   <div>
+                     <div className="text-slate-400 text-xs font-medium uppercase tracking-widest">Touch Probability{altModel ? ' (GBM)' : ''}</div>
+                     <div className="text-[10px] text-slate-500">Hits K at any time before t</div>
+                   </div>
+                 </div>
+                 <div className="text-2xl font-bold text-emerald-300 font-mono">
+                   {model ? (model.touchProbability * 100).toFixed(2) : '0.0'}%
+                 </div>
+               </div>
+               )}
              </div>
           </div>
 
+          {/* TERMINAL DISTRIBUTION */}
+          {terminal && (
+            <TerminalDistributionPanel
+              summary={terminal.summary}
+              region={terminal.region}
+              probability={terminal.probability}
+              modelLabel={MODEL_LABELS[modelKind]}
+              timeMinutes={horizonMinutes}
+            />
+          )}
+
+          {replayPanel}
+
+          <PresetsPanel
+            presets={presets}
+            onSave={savePreset}
+            onLoad={(preset) => applyScenario(preset.scenario)}
+            onDelete={(id) => setPresets(prev => prev.filter(p => p.id !== id))}
+            onImport={importPresets}
+            onCopyLink={() => navigator.clipboard.writeText(window.location.href)}
+          />
+
+          {/* MONTE CARLO PANEL */}
+          <div className="bg-slate-900 border border-slate-800 rounded-lg p-6 shadow-xl space-y-5">
+            <div className="flex items-center justify-between pb-4 border-b border-slate-800">
+              <div className="flex items-center gap-2 text-white font-semibold">
+                <Dices className="text-amber-500" size={18} /> Monte Carlo
+              </div>
+              {mcResult && mcStale && <span className="text-[10px] text-yellow-500 bg-yellow-500/10 px-1 rounded border border-yellow-500/20">STALE</span>}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 block">Paths (N)</label>
+                <select
+                  value={mcPaths}
+                  onChange={(e) => setMcPaths(parseInt(e.target.value))}
+                  className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-white font-mono text-sm focus:border-blue-500 outline-none"
+                >
+                  {[1000, 5000, 20000, 50000].map(n => <option key={n} value={n}>{n.toLocaleString()}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 block">Seed</label>
+                <input
+                  type="number"
+                  value={mcSeed}
+                  onChange={(e) => setMcSeed(parseInt(e.target.value) || 0)}
+                  className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-white font-mono text-sm focus:border-blue-500 outline-none"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <button
+                onClick={runSimulation}
+                disabled={mcRunning || !model}
+                className="flex-1 py-2 rounded-md text-xs font-medium flex items-center justify-center gap-2 bg-amber-900/30 text-amber-400 border border-amber-500/30 hover:bg-amber-900/50 disabled:opacity-50"
+              >
+                {mcRunning ? <LoaderCircle size={14} className="animate-spin" /> : <Play size={14} />}
+                {mcRunning ? 'Simulating...' : 'Run Simulation'}
+              </button>
+              <button
+                onClick={() => setShowPaths(!showPaths)}
+                className="text-[10px] font-mono text-blue-400 hover:text-blue-300 underline cursor-pointer"
+              >
+                {showPaths ? 'Hide Paths' : 'Show Paths'}
+              </button>
+            </div>
+
+            {mcError && (
+              <div className="text-xs text-red-400 flex items-center gap-2"><AlertTriangle size={14} /> {mcError}</div>
+            )}
+
+            {model && mcResult && (
+              <div className="text-xs font-mono">
+                <div className="grid grid-cols-3 gap-2 text-[10px] text-slate-500 uppercase tracking-wider pb-2 border-b border-slate-800">
+                  <span></span>
+                  <span className="text-right">Closed Form</span>
+                  <span className="text-right">Simulated</span>
+                </div>
+                {([
+                  ['Terminal', model.probability, mcResult.terminal],
+                  ['Touch', model.touchProbability, mcResult.touch],
+                ] as const).map(([label, analytic, estimate]) => (
+                  <div key={label} className="grid grid-cols-3 gap-2 py-2 border-b border-slate-800/50 items-baseline">
+                    <span className="text-slate-400">{label}</span>
+                    <span className="text-right text-white">{formatPercent(analytic)}</span>
+                    <span className="text-right">
+                      <span className="text-amber-300">{formatPercent(estimate.probability)}</span>
+                      <span className="block text-[10px] text-slate-500">[{formatPercent(estimate.lower, 1)}, {formatPercent(estimate.upper, 1)}]</span>
+                    </span>
+                  </div>
+                ))}
+                <div className="text-[10px] text-slate-500 pt-2">
+                  {mcResult.params.paths.toLocaleString()} paths × {mcResult.params.steps} steps · seed {mcResult.params.seed} · {mcResult.elapsedMs} ms · 95% Wilson CI
+                </div>
+              </div>
+            )}
+          </div>
+
         </div>
       </div>
+
+      {showPerfHud && (
+        <PerfHud
+          monitor={perf}
+          interval={TICK_INTERVALS.find(i => i.value === tickInterval)!.label}
+          onClose={() => setShowPerfHud(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,149 @@
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+  aggregateCandles,
+  barrierHitProbability,
+  coneBounds,
+  gbmTerminal,
+  realizedVolatility,
+  VolEstimator,
+  VOL_ESTIMATORS
+} from '../quant';
+import { HistoryPoint } from '../types';
+import { parseTickFile } from '../services/replay';
+
+// --- QUANT CLI ---
+// Answers "P(ASSET above K in t)" from the command line, e.g.
+//   npm run quant -- --spot 3000 --strike 3100 --minutes 60 --vol 55
+//   npm run quant -- --csv eth.csv --strike 3100 --minutes 60 --estimator ewma
+
+const USAGE = `Usage: npm run quant -- --strike <K> --minutes <t> (--spot <S> --vol <σ%> | --csv <file>) [options]
+
+  --asset <name>       Label for the output (default ETH)
+  --spot <S>           Current price (defaults to the last CSV price)
+  --strike <K>         Target price
+  --minutes <t>        Horizon in minutes
+  --vol <σ%>           Annualized volatility in % (defaults to realized vol from the CSV)
+  --drift <μ%>         Annualized drift in % (default 0)
+  --csv <file>         Recorded trades as the replay reads them: "timestamp,price[,qty]" CSV or JSONL
+  --estimator <name>   ${Object.keys(VOL_ESTIMATORS).join(' | ')} (default closeToClose)
+  --bar <seconds>      Bar width for realized vol (default 60)
+  --lookback <bars>    Bars in the realized vol window (default 60)
+  --json               Print JSON instead of a table
+  -h, --help           Show this help`;
+
+const MINUTES_PER_YEAR = 525600;
+
+class UsageError extends Error {}
+
+const parseNumber = (name: string, raw: string | undefined): number | undefined => {
+  if (raw === undefined) return undefined;
+  const n = Number(raw);
+  if (!Number.isFinite(n)) throw new UsageError(`--${name} must be a number, got "${raw}"`);
+  return n;
+};
+
+/**
+ * Reads a recorded trade file with the same parser as the dashboard's replay.
+ */
+function readPrices(path: string): HistoryPoint[] {
+  try {
+    return parseTickFile(readFileSync(path, 'utf8'));
+  } catch (error) {
+    if ((error as { code?: string }).code) throw error; // Not a parse error, e.g. ENOENT
+    throw new UsageError(`${path}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function main(argv: string[]) {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      asset: { type: 'string', default: 'ETH' },
+      spot: { type: 'string' },
+      strike: { type: 'string' },
+      minutes: { type: 'string' },
+      vol: { type: 'string' },
+      drift: { type: 'string', default: '0' },
+      csv: { type: 'string' },
+      estimator: { type: 'string', default: 'closeToClose' },
+      bar: { type: 'string', default: '60' },
+      lookback: { type: 'string', default: '60' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const K = parseNumber('strike', values.strike);
+  const minutes = parseNumber('minutes', values.minutes);
+  if (K === undefined || !(K > 0)) throw new UsageError('--strike is required and must be positive');
+  if (minutes === undefined || !(minutes > 0)) throw new UsageError('--minutes is required and must be positive');
+
+  const estimator = values.estimator as VolEstimator;
+  if (!(estimator in VOL_ESTIMATORS)) throw new UsageError(`Unknown estimator "${values.estimator}"`);
+  const barMs = parseNumber('bar', values.bar)! * 1000;
+  const lookback = parseNumber('lookback', values.lookback)!;
+
+  const ticks = values.csv ? readPrices(values.csv) : null;
+  const S = parseNumber('spot', values.spot) ?? ticks?.[ticks.length - 1].price;
+  if (S === undefined || !(S > 0)) throw new UsageError('Provide --spot or a --csv of prices');
+
+  let volPct = parseNumber('vol', values.vol);
+  let volSource = 'given';
+  if (volPct === undefined) {
+    if (!ticks) throw new UsageError('Provide --vol or a --csv to estimate it from');
+    const realized = realizedVolatility(aggregateCandles(ticks, barMs), estimator, barMs, lookback);
+    if (realized === null) throw new UsageError(`Not enough ${values.bar}s bars in ${values.csv} to estimate volatility`);
+    volPct = realized * 100;
+    volSource = `${VOL_ESTIMATORS[estimator].label}, ${lookback} × ${values.bar}s bars`;
+  }
+  if (!(volPct > 0)) throw new UsageError('--vol must be positive');
+
+  const sigma = volPct / 100;
+  const mu = parseNumber('drift', values.drift)! / 100;
+  const t = minutes / MINUTES_PER_YEAR;
+
+  const terminal = gbmTerminal(S, K, mu, sigma, t);
+  const touch = barrierHitProbability(terminal.logReturn, terminal.driftCorrection, sigma, t).probability;
+  const cone = [1, 2, 3].map(n => coneBounds(S, terminal.driftCorrection, sigma, t, n));
+
+  const result = {
+    asset: values.asset,
+    S, K, minutes, sigma, mu, volSource,
+    zScore: terminal.zScore,
+    pAbove: terminal.pAbove,
+    pBelow: terminal.pBelow,
+    pTouch: touch,
+    cone: { sigma1: cone[0], sigma2: cone[1], sigma3: cone[2] },
+  };
+
+  if (values.json) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+
+  const pct = (p: number) => `${(p * 100).toFixed(4)}%`;
+  const px = (v: number) => v.toFixed(S < 10 ? 4 : 2);
+  console.log(`${values.asset}  S₀ = ${px(S)}  K = ${px(K)}  t = ${minutes}m`);
+  console.log(`σ = ${volPct.toFixed(2)}% (${volSource})  μ = ${(mu * 100).toFixed(2)}%  z = ${terminal.zScore.toFixed(4)}`);
+  console.log('');
+  console.log(`P(${values.asset} above ${px(K)} in ${minutes}m)   ${pct(terminal.pAbove)}`);
+  console.log(`P(${values.asset} below ${px(K)} in ${minutes}m)   ${pct(terminal.pBelow)}`);
+  console.log(`P(touch ${px(K)} within ${minutes}m)  ${pct(touch)}`);
+  console.log('');
+  cone.forEach(([lo, hi], i) => console.log(`${i + 1}σ cone at t   [${px(lo)}, ${px(hi)}]`));
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  const isUsage = error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS');
+  console.error(`error: ${error instanceof Error ? error.message : error}`);
+  if (isUsage) console.error(`\n${USAGE}`);
+  process.exit(1);
+}
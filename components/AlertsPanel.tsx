@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { Bell, BellOff, Plus, Trash2, Volume2, VolumeX, X } from 'lucide-react';
+import { AlertEvent, AlertKind, AlertRule, ALERT_KINDS } from '../utils/alerts';
+
+interface AlertsPanelProps {
+  rules: AlertRule[];
+  log: AlertEvent[];
+  onAddRule: (rule: Omit<AlertRule, 'id'>) => void;
+  onToggleRule: (id: string) => void;
+  onRemoveRule: (id: string) => void;
+  onClearLog: () => void;
+  soundEnabled: boolean;
+  onSoundChange: (enabled: boolean) => void;
+  permission: NotificationPermission | 'unsupported';
+  onRequestPermission: () => void;
+}
+
+const COOLDOWN_OPTIONS = [0, 1, 5, 15, 60];
+
+// Rows shown in the history log; older entries are kept in storage
+const LOG_ROWS = 50;
+
+const describeRule = (rule: AlertRule) => {
+  const { label, unit } = ALERT_KINDS[rule.kind];
+  return rule.kind === 'priceCross' ? label : `${label} ${rule.threshold}${unit}`;
+};
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({
+  rules, log, onAddRule, onToggleRule, onRemoveRule, onClearLog, soundEnabled, onSoundChange, permission, onRequestPermission
+}) => {
+  const [kind, setKind] = useState<AlertKind>('priceCross');
+  const [threshold, setThreshold] = useState<number>(ALERT_KINDS.priceCross.defaultThreshold);
+  const [cooldownMinutes, setCooldownMinutes] = useState<number>(5);
+
+  const selectKind = (next: AlertKind) => {
+    setKind(next);
+    setThreshold(ALERT_KINDS[next].defaultThreshold);
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-lg p-6 shadow-xl relative overflow-hidden">
+      <div className="absolute top-0 left-0 w-1 h-full bg-gradient-to-b from-amber-500 to-orange-500"></div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-2 text-slate-200">
+          <Bell size={18} className="text-amber-400" />
+          <h3 className="font-bold text-lg">Alerts</h3>
+        </div>
+
+        <div className="flex items-center gap-3">
+          {permission === 'granted' ? (
+            <span className="text-[10px] font-mono text-emerald-400 border border-emerald-500/30 px-1 rounded">NOTIFY ON</span>
+          ) : permission === 'unsupported' ? (
+            <span className="text-[10px] font-mono text-slate-500 border border-slate-700 px-1 rounded">NO NOTIFICATIONS</span>
+          ) : (
+            <button
+              onClick={onRequestPermission}
+              disabled={permission === 'denied'}
+              className="py-1.5 px-3 rounded-md text-xs font-medium flex items-center gap-2 bg-amber-900/30 text-amber-400 border border-amber-500/30 hover:bg-amber-900/50 disabled:opacity-50"
+              title={permission === 'denied' ? 'Notifications are blocked in the browser settings' : undefined}
+            >
+              <BellOff size={14} /> Enable Notifications
+            </button>
+          )}
+          <button
+            onClick={() => onSoundChange(!soundEnabled)}
+            className={`p-1.5 rounded-md ${soundEnabled ? 'text-amber-400' : 'text-slate-500'} hover:text-white`}
+            title={soundEnabled ? 'Mute alert sound' : 'Play a sound on alerts'}
+          >
+            {soundEnabled ? <Volume2 size={14} /> : <VolumeX size={14} />}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        {/* Rules */}
+        <div>
+          <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-4 border-b border-slate-800 pb-2">Rules</h4>
+
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <select
+              value={kind}
+              onChange={(e) => selectKind(e.target.value as AlertKind)}
+              className="bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-white text-xs focus:border-blue-500 outline-none"
+            >
+              {(Object.keys(ALERT_KINDS) as AlertKind[]).map(k => <option key={k} value={k}>{ALERT_KINDS[k].label}</option>)}
+            </select>
+            {kind !== 'priceCross' && (
+              <div className="flex items-center gap-1 text-[10px] font-mono text-slate-500">
+                <input
+                  type="number" step={kind === 'coneExit' ? 0.5 : 1} min="0" value={threshold}
+                  onChange={(e) => setThreshold(parseFloat(e.target.value) || 0)}
+                  className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-white text-xs focus:border-blue-500 outline-none"
+                />
+                {ALERT_KINDS[kind].unit}
+              </div>
+            )}
+            <select
+              value={cooldownMinutes}
+              onChange={(e) => setCooldownMinutes(parseInt(e.target.value))}
+              className="bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-white font-mono text-xs focus:border-blue-500 outline-none"
+            >
+              {COOLDOWN_OPTIONS.map(m => <option key={m} value={m}>{m === 0 ? 'No cooldown' : `Cooldown ${m}m`}</option>)}
+            </select>
+            <button
+              onClick={() => onAddRule({ kind, threshold, cooldownMinutes, enabled: true })}
+              disabled={kind !== 'priceCross' && !(threshold > 0)}
+              className="p-1.5 rounded-md text-amber-400 border border-amber-500/30 hover:bg-amber-900/30 disabled:opacity-50"
+              title="Add rule"
+            >
+              <Plus size={14} />
+            </button>
+          </div>
+
+          {rules.length === 0 ? (
+            <div className="text-xs text-slate-500 italic">No alert rules yet.</div>
+          ) : (
+            <div className="text-xs font-mono">
+              {rules.map(rule => (
+                <div key={rule.id} className="flex items-center gap-2 py-1.5 border-t border-slate-800/50">
+                  <input type="checkbox" checked={rule.enabled} onChange={() => onToggleRule(rule.id)} className="accent-amber-500" />
+                  <span className={`flex-1 truncate ${rule.enabled ? 'text-slate-300' : 'text-slate-600'}`}>{describeRule(rule)}</span>
+                  <span className="text-[10px] text-slate-500">{rule.cooldownMinutes > 0 ? `${rule.cooldownMinutes}m` : '—'}</span>
+                  <button onClick={() => onRemoveRule(rule.id)} className="text-slate-500 hover:text-red-400" title="Remove rule">
+                    <X size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* History */}
+        <div>
+          <div className="flex items-center justify-between mb-4 border-b border-slate-800 pb-2">
+            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest">History</h4>
+            <button
+              onClick={onClearLog}
+              disabled={log.length === 0}
+              className="text-slate-500 hover:text-red-400 disabled:opacity-50"
+              title="Clear alert history"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+
+          {log.length === 0 ? (
+            <div className="text-xs text-slate-500 italic">Nothing has fired yet.</div>
+          ) : (
+            <div className="text-xs font-mono max-h-56 overflow-y-auto">
+              {log.slice(0, LOG_ROWS).map(event => (
+                <div key={event.id} className="py-1.5 border-t border-slate-800/50">
+                  <div className="text-[10px] text-slate-500">{new Date(event.firedAt).toLocaleString()}</div>
+                  <div className="text-slate-300">{event.message}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertsPanel;
@@ -0,0 +1,177 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  ZAxis,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  CartesianGrid
+} from 'recharts';
+import { Gauge, Camera, Trash2 } from 'lucide-react';
+import { Forecast, forecastAsset, forecastModel, forecastProvider, summarize, summarizeBy, reliabilityBins } from '../utils/calibration';
+
+interface CalibrationPanelProps {
+  forecasts: Forecast[];
+  autoSnapshotMinutes: number; // 0 = off
+  onAutoSnapshotChange: (minutes: number) => void;
+  onSnapshot: () => void;
+  onClear: () => void;
+  canSnapshot: boolean;
+}
+
+type Breakdown = 'volSource' | 'bias' | 'asset' | 'venue' | 'model';
+
+const BREAKDOWNS: { id: Breakdown; label: string; key: (f: Forecast) => string }[] = [
+  { id: 'volSource', label: 'σ Source', key: f => f.volSource },
+  { id: 'bias', label: 'Drift', key: f => f.bias },
+  { id: 'asset', label: 'Asset', key: forecastAsset },
+  { id: 'venue', label: 'Venue', key: forecastProvider },
+  { id: 'model', label: 'Model', key: forecastModel },
+];
+
+const AUTO_SNAPSHOT_OPTIONS = [0, 1, 5, 15, 60];
+
+const Stat = ({ label, value }: { label: string, value: string }) => (
+  <div className="bg-slate-950 border border-slate-800 rounded px-3 py-2">
+    <div className="text-[10px] text-slate-500 uppercase tracking-wider">{label}</div>
+    <div className="font-mono text-white text-lg">{value}</div>
+  </div>
+);
+
+const CalibrationPanel: React.FC<CalibrationPanelProps> = ({
+  forecasts, autoSnapshotMinutes, onAutoSnapshotChange, onSnapshot, onClear, canSnapshot
+}) => {
+  const [breakdown, setBreakdown] = useState<Breakdown>('volSource');
+
+  const summary = useMemo(() => summarize(forecasts), [forecasts]);
+  const bins = useMemo(() => reliabilityBins(forecasts), [forecasts]);
+  const groups = useMemo(
+    () => summarizeBy(forecasts, BREAKDOWNS.find(b => b.id === breakdown)!.key),
+    [forecasts, breakdown]
+  );
+  const pending = forecasts.filter(f => f.status === 'pending').length;
+  const voided = forecasts.filter(f => f.status === 'void').length;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-lg p-6 shadow-xl relative overflow-hidden">
+      <div className="absolute top-0 left-0 w-1 h-full bg-gradient-to-b from-emerald-500 to-teal-500"></div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-2 text-slate-200">
+          <Gauge size={18} className="text-emerald-400" />
+          <h3 className="font-bold text-lg">Forecast Calibration</h3>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <select
+            value={autoSnapshotMinutes}
+            onChange={(e) => onAutoSnapshotChange(parseInt(e.target.value))}
+            className="bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-white font-mono text-xs focus:border-blue-500 outline-none"
+          >
+            {AUTO_SNAPSHOT_OPTIONS.map(m => <option key={m} value={m}>{m === 0 ? 'Auto: Off' : `Auto: every ${m}m`}</option>)}
+          </select>
+          <button
+            onClick={onSnapshot}
+            disabled={!canSnapshot}
+            className="py-1.5 px-3 rounded-md text-xs font-medium flex items-center gap-2 bg-emerald-900/30 text-emerald-400 border border-emerald-500/30 hover:bg-emerald-900/50 disabled:opacity-50"
+          >
+            <Camera size={14} /> Snapshot
+          </button>
+          <button
+            onClick={onClear}
+            disabled={forecasts.length === 0}
+            className="p-1.5 rounded-md text-slate-500 hover:text-red-400 disabled:opacity-50"
+            title="Clear forecast log"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-6">
+        <Stat label="Resolved" value={`${summary?.count ?? 0}`} />
+        <Stat label="Hit Rate" value={summary ? `${(summary.hitRate * 100).toFixed(1)}%` : '—'} />
+        <Stat label="Avg Forecast" value={summary ? `${(summary.meanForecast * 100).toFixed(1)}%` : '—'} />
+        <Stat label="Brier" value={summary ? summary.brier.toFixed(4) : '—'} />
+        <Stat label="Log-Loss" value={summary ? summary.logLoss.toFixed(4) : '—'} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        {/* Reliability Diagram */}
+        <div>
+          <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-4 border-b border-slate-800 pb-2">Reliability Diagram</h4>
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 10, right: 10, bottom: 10, left: -10 }}>
+                <CartesianGrid strokeDasharray="2 6" stroke="#1e293b" />
+                <XAxis
+                  type="number" dataKey="meanForecast" domain={[0, 1]} name="Forecast"
+                  tickFormatter={(v) => `${Math.round(v * 100)}%`}
+                  stroke="#334155" tick={{ fill: '#64748b', fontSize: 10 }}
+                />
+                <YAxis
+                  type="number" dataKey="observed" domain={[0, 1]} name="Observed"
+                  tickFormatter={(v) => `${Math.round(v * 100)}%`}
+                  stroke="#334155" tick={{ fill: '#64748b', fontSize: 10 }}
+                />
+                <ZAxis type="number" dataKey="count" range={[40, 400]} name="Forecasts" />
+                <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} stroke="#475569" strokeDasharray="4 4" />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b', borderRadius: '4px', color: '#f8fafc' }}
+                  itemStyle={{ fontSize: '12px', fontFamily: 'monospace' }}
+                  formatter={(val: any, name) => [name === 'Forecasts' ? val : `${(Number(val) * 100).toFixed(1)}%`, name]}
+                />
+                <Scatter data={bins} fill="#10b981" fillOpacity={0.7} />
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="text-[10px] text-slate-500 font-mono mt-2">
+            {pending} pending · {voided} void (no price at expiry)
+          </div>
+        </div>
+
+        {/* Breakdown */}
+        <div>
+          <div className="flex items-center justify-between mb-4 border-b border-slate-800 pb-2">
+            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Breakdown</h4>
+            <div className="flex gap-2">
+              {BREAKDOWNS.map(b => (
+                <button
+                  key={b.id}
+                  onClick={() => setBreakdown(b.id)}
+                  className={`text-[10px] font-mono ${breakdown === b.id ? 'text-blue-400 underline' : 'text-slate-500 hover:text-slate-300'}`}
+                >
+                  {b.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {groups.length === 0 ? (
+            <div className="text-xs text-slate-500 italic">No resolved forecasts yet. Snapshot one and wait out its horizon.</div>
+          ) : (
+            <div className="text-xs font-mono">
+              <div className="grid grid-cols-4 gap-2 text-[10px] text-slate-500 uppercase tracking-wider pb-2">
+                <span className="col-span-2">Group</span>
+                <span className="text-right">N / Hit</span>
+                <span className="text-right">Brier</span>
+              </div>
+              {groups.map(({ group, summary: g }) => (
+                <div key={group} className="grid grid-cols-4 gap-2 py-1.5 border-t border-slate-800/50">
+                  <span className="col-span-2 text-slate-300 truncate capitalize">{group}</span>
+                  <span className="text-right text-slate-400">{g.count} / {(g.hitRate * 100).toFixed(0)}%</span>
+                  <span className="text-right text-white">{g.brier.toFixed(4)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationPanel;
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { Download, LoaderCircle } from 'lucide-react';
+
+export type ExportFormat = 'csv' | 'json' | 'png' | 'pdf';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void | Promise<void>;
+}
+
+const FORMATS: { id: ExportFormat; title: string }[] = [
+  { id: 'csv', title: 'Chart data (history, mean, 1-3σ bands) as CSV' },
+  { id: 'json', title: 'Chart data and parameters as JSON' },
+  { id: 'png', title: 'Report image: chart, parameters and final probability' },
+  { id: 'pdf', title: 'Report PDF: chart, parameters and final probability' },
+];
+
+// Compact button strip for the chart overlay
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport }) => {
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (format: ExportFormat) => {
+    setBusy(format);
+    setError(null);
+    try {
+      await onExport(format);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Export failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="flex items-center bg-slate-950/80 p-0.5 rounded-md border border-slate-800" title={error ?? undefined}>
+      {busy ? (
+        <LoaderCircle size={12} className="mx-1 text-slate-400 animate-spin" />
+      ) : (
+        <Download size={12} className={`mx-1 ${error ? 'text-red-400' : 'text-slate-500'}`} />
+      )}
+      {FORMATS.map(f => (
+        <button
+          key={f.id}
+          onClick={() => run(f.id)}
+          disabled={busy !== null}
+          title={f.title}
+          className="px-2 py-0.5 rounded text-[10px] font-mono uppercase text-slate-500 hover:text-slate-300 disabled:opacity-50"
+        >
+          {f.id}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ExportMenu;
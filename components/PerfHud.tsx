@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { PerfMonitor, PerfStats } from '../utils/perfMonitor';
+
+interface PerfHudProps {
+  monitor: PerfMonitor;
+  interval: string; // Current flush interval, for the label
+  onClose: () => void;
+}
+
+// Samples on its own timer so the HUD never re-renders the dashboard
+const PerfHud: React.FC<PerfHudProps> = ({ monitor, interval, onClose }) => {
+  const [stats, setStats] = useState<PerfStats | null>(null);
+
+  useEffect(() => {
+    const stopFrames = monitor.watchFrames();
+    monitor.sample(); // Drop whatever accumulated while hidden
+    const timer = setInterval(() => setStats(monitor.sample()), 1000);
+    return () => {
+      clearInterval(timer);
+      stopFrames();
+    };
+  }, [monitor]);
+
+  return (
+    <div className="fixed bottom-3 left-3 z-50 bg-slate-950/90 border border-slate-700 rounded-md px-3 py-2 text-[10px] font-mono text-slate-400 shadow-xl">
+      <div className="flex items-center justify-between gap-4 mb-1">
+        <span className="font-bold text-slate-500 uppercase tracking-wider">Perf · {interval}</span>
+        <button onClick={onClose} className="text-slate-500 hover:text-white" title="Hide">
+          <X size={10} />
+        </button>
+      </div>
+      {stats ? (
+        <div className="grid grid-cols-2 gap-x-4">
+          <span>ticks/s</span><span className="text-right text-white">{stats.ticksPerSec.toFixed(0)}</span>
+          <span>updates/s</span><span className="text-right text-white">{stats.flushesPerSec.toFixed(0)}</span>
+          <span>render ms</span>
+          <span className={`text-right ${stats.renderMs > 16 ? 'text-amber-400' : 'text-white'}`}>
+            {stats.renderMs.toFixed(1)} <span className="text-slate-500">/ {stats.maxRenderMs.toFixed(0)}</span>
+          </span>
+          <span>dropped</span>
+          <span className={`text-right ${stats.droppedFrames > 0 ? 'text-red-400' : 'text-white'}`}>{stats.droppedFrames}</span>
+        </div>
+      ) : (
+        <div>sampling…</div>
+      )}
+    </div>
+  );
+};
+
+export default PerfHud;
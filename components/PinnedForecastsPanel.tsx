@@ -0,0 +1,114 @@
+import React, { useMemo } from 'react';
+import { Pin, Trash2, X } from 'lucide-react';
+import { PinnedForecast } from '../utils/pins';
+
+interface PinnedForecastsPanelProps {
+  pins: PinnedForecast[];
+  onPin: () => void;
+  onToggle: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  canPin: boolean;
+}
+
+const BAND_LABELS = { 1: 'inside 1σ', 2: 'inside 2σ', 3: 'inside 3σ', 4: 'outside 3σ' };
+
+const formatCountdown = (ms: number) => {
+  const s = Math.max(0, Math.ceil(ms / 1000));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return h > 0 ? `${h}:${pad(m)}:${pad(s % 60)}` : `${m}:${pad(s % 60)}`;
+};
+
+const describeTarget = (pin: PinnedForecast) =>
+  pin.range ? `${pin.range[0]} < S < ${pin.range[1]}` : `${pin.direction} ${pin.target}`;
+
+const PinnedForecastsPanel: React.FC<PinnedForecastsPanelProps> = ({ pins, onPin, onToggle, onDelete, onClear, canPin }) => {
+  const now = Date.now();
+
+  // How often landings fall inside each frozen band; GBM expects ~68% / 95% / 99.7%
+  const stats = useMemo(() => {
+    const landed = pins.filter(p => p.status === 'landed' && p.band !== undefined);
+    if (landed.length === 0) return null;
+    const share = (band: number) => landed.filter(p => p.band! <= band).length / landed.length;
+    const meanZ = landed.reduce((sum, p) => sum + (p.zScore ?? 0), 0) / landed.length;
+    return { count: landed.length, in1: share(1), in2: share(2), in3: share(3), meanZ };
+  }, [pins]);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-lg p-6 shadow-xl relative overflow-hidden">
+      <div className="absolute top-0 left-0 w-1 h-full bg-gradient-to-b from-pink-500 to-amber-400"></div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2 text-slate-200">
+          <Pin size={18} className="text-pink-400" />
+          <h3 className="font-bold text-lg">Pinned Forecasts</h3>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onPin}
+            disabled={!canPin}
+            className="py-1.5 px-3 rounded-md text-xs font-medium flex items-center gap-2 bg-pink-900/30 text-pink-400 border border-pink-500/30 hover:bg-pink-900/50 disabled:opacity-50"
+            title="Freeze the current cone, mean and target on the chart"
+          >
+            <Pin size={14} /> Pin Forecast
+          </button>
+          <button
+            onClick={onClear}
+            disabled={pins.length === 0}
+            className="p-1.5 rounded-md text-slate-500 hover:text-red-400 disabled:opacity-50"
+            title="Remove all pins"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      </div>
+
+      {stats && (
+        <div className="text-[10px] font-mono text-slate-400 mb-3">
+          Landed {stats.count} · in 1σ {(stats.in1 * 100).toFixed(0)}% · in 2σ {(stats.in2 * 100).toFixed(0)}% · in 3σ {(stats.in3 * 100).toFixed(0)}% · mean z {stats.meanZ >= 0 ? '+' : ''}{stats.meanZ.toFixed(2)}
+        </div>
+      )}
+
+      {pins.length === 0 ? (
+        <div className="text-xs text-slate-500 italic">Nothing pinned. A pin keeps the current cone on the chart until its horizon passes.</div>
+      ) : (
+        <div className="text-xs font-mono max-h-56 overflow-y-auto">
+          {[...pins].reverse().map(pin => (
+            <div key={pin.id} className="flex items-center gap-3 py-1.5 border-t border-slate-800/50">
+              <button
+                onClick={() => onToggle(pin.id)}
+                className="w-3 h-3 rounded-sm border shrink-0"
+                style={{ borderColor: pin.color, backgroundColor: pin.hidden ? 'transparent' : pin.color }}
+                title={pin.hidden ? 'Show on chart' : 'Hide from chart'}
+              />
+              <span className="text-slate-300 w-10">{pin.asset}</span>
+              <span className="text-slate-500 w-14">{new Date(pin.pinnedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+              <span className="text-slate-400 flex-1 truncate">
+                P({describeTarget(pin)}) {(pin.probability * 100).toFixed(1)}% · {pin.model}
+              </span>
+              {pin.status === 'live' && (
+                <span className="text-blue-400">{formatCountdown(pin.expiresAt - now)} left</span>
+              )}
+              {pin.status === 'landed' && (
+                <span className={pin.band! <= 2 ? 'text-emerald-400' : 'text-red-400'} title={`Landed at ${pin.realizedPrice?.toFixed(2)}`}>
+                  {pin.zScore! >= 0 ? '+' : ''}{pin.zScore!.toFixed(2)}σ · {BAND_LABELS[pin.band!]} · {pin.hit ? 'hit' : 'miss'}
+                </span>
+              )}
+              {pin.status === 'missed' && (
+                <span className="text-slate-500" title="No price arrived within a minute of expiry">no landing</span>
+              )}
+              <button onClick={() => onDelete(pin.id)} className="text-slate-500 hover:text-red-400" title="Remove pin">
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PinnedForecastsPanel;
@@ -0,0 +1,156 @@
+import React from 'react';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  CartesianGrid
+} from 'recharts';
+import { Briefcase, AlertTriangle, LoaderCircle } from 'lucide-react';
+import { PnlFanPoint, PositionInput } from '../types';
+import { formatHorizon } from '../utils/format';
+import { PositionRiskSummary } from '../utils/positionFan';
+
+interface PositionRiskPanelProps {
+  position: PositionInput;
+  onChange: (patch: Partial<PositionInput>) => void;
+  spot: number;
+  entry: number;               // Resolved entry (spot when left blank)
+  risk: PositionRiskSummary | null; // Null while the first fan is solving
+  fan: PnlFanPoint[];
+  error: string | null;
+  sigma: number;
+  nu: number;                  // Drift of log price, μ - σ²/2
+  timeMinutes: number;
+}
+
+const formatPnl = (v: number) =>
+  `${v < 0 ? '-' : v > 0 ? '+' : ''}$${Math.abs(v).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Blank means "not set"
+const parseOptional = (value: string) => (value === '' ? null : parseFloat(value) || null);
+
+const INPUT_CLASS = 'w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-white font-mono text-sm focus:border-blue-500 outline-none';
+
+const Stat = ({ label, value, className = 'text-white' }: { label: string, value: string, className?: string }) => (
+  <div className="bg-slate-950 border border-slate-800 rounded p-3">
+    <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{label}</div>
+    <div className={`font-mono text-sm mt-1 ${className}`}>{value}</div>
+  </div>
+);
+
+const PositionRiskPanel: React.FC<PositionRiskPanelProps> = ({ position, onChange, spot, entry, risk, fan, error, sigma, nu, timeMinutes }) => (
+  <div className="bg-slate-900 border border-slate-800 rounded-lg p-6 shadow-xl relative overflow-hidden">
+    <div className="absolute top-0 left-0 w-1 h-full bg-gradient-to-b from-rose-500 to-emerald-500"></div>
+
+    <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+      <div className="flex items-center gap-2 text-slate-200">
+        <Briefcase size={18} className="text-rose-400" />
+        <h3 className="font-bold text-lg">Position Risk</h3>
+      </div>
+      <div className="text-[10px] font-mono text-slate-500">
+        GBM · σ = {(sigma * 100).toFixed(1)}% · ν = {nu.toFixed(3)} · t = {formatHorizon(timeMinutes)} · exits fill at the level
+      </div>
+    </div>
+
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+      <div>
+        <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider block mb-1">Side</label>
+        <div className="grid grid-cols-2 bg-slate-950 p-1 rounded-lg border border-slate-800">
+          {(['long', 'short'] as const).map(side => (
+            <button
+              key={side}
+              onClick={() => onChange({ side })}
+              className={`py-1 text-xs font-medium rounded capitalize ${position.side === side ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              {side}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div>
+        <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider block mb-1">Size</label>
+        <input type="number" step="0.1" value={position.size} onChange={(e) => onChange({ size: parseFloat(e.target.value) || 0 })} className={INPUT_CLASS} />
+      </div>
+      <div>
+        <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider block mb-1">Entry</label>
+        <input
+          type="number"
+          value={position.entry ?? ''}
+          placeholder={spot.toFixed(2)}
+          onChange={(e) => onChange({ entry: parseOptional(e.target.value) })}
+          className={INPUT_CLASS}
+          title="Blank fills at the live spot"
+        />
+      </div>
+      <div>
+        <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider block mb-1">Stop</label>
+        <input type="number" value={position.stop ?? ''} placeholder="none" onChange={(e) => onChange({ stop: parseOptional(e.target.value) })} className={INPUT_CLASS} />
+      </div>
+      <div>
+        <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider block mb-1">Take-Profit</label>
+        <input type="number" value={position.takeProfit ?? ''} placeholder="none" onChange={(e) => onChange({ takeProfit: parseOptional(e.target.value) })} className={INPUT_CLASS} />
+      </div>
+    </div>
+
+    {error ? (
+      <div className="text-xs text-red-400 flex items-center gap-2"><AlertTriangle size={12} /> {error}</div>
+    ) : !risk ? (
+      <div className="text-xs text-slate-500 flex items-center gap-2"><LoaderCircle size={12} className="animate-spin" /> Solving the P&L fan...</div>
+    ) : (
+      <>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+          <Stat label="E[P&L]" value={formatPnl(risk.expectedPnl)} className={risk.expectedPnl >= 0 ? 'text-emerald-400' : 'text-red-400'} />
+          <Stat label="VaR 95% / 99%" value={`${formatPnl(-risk.var95)} / ${formatPnl(-risk.var99)}`} className="text-red-400" />
+          <Stat label="ES 95% / 99%" value={`${formatPnl(-risk.es95)} / ${formatPnl(-risk.es99)}`} className="text-red-400" />
+          <Stat
+            label="Stop / TP First"
+            value={`${(risk.pStop * 100).toFixed(1)}% / ${(risk.pTakeProfit * 100).toFixed(1)}%`}
+            className="text-slate-200"
+          />
+        </div>
+
+        <div className="text-[10px] font-mono text-slate-500 mb-2">
+          P&L quantiles (1–99%, 5–95%, 25–75%, median) from entry {entry.toFixed(2)} over the same horizon as the cone ·
+          neither level by t {((1 - risk.pStop - risk.pTakeProfit) * 100).toFixed(1)}%
+        </div>
+        <div className="h-40 bg-slate-950 border border-slate-800 rounded">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={fan} margin={{ top: 10, right: 12, bottom: 0, left: 4 }}>
+              <CartesianGrid strokeDasharray="2 6" stroke="#1e293b" vertical={false} />
+              <XAxis
+                type="number" dataKey="minutes" domain={[0, 'dataMax']}
+                tickFormatter={formatHorizon}
+                stroke="#334155" tick={{ fill: '#64748b', fontSize: 9 }}
+              />
+              <YAxis
+                type="number" domain={['auto', 'auto']}
+                tickFormatter={(v) => formatPnl(v).replace('.00', '')}
+                stroke="#334155" tick={{ fill: '#64748b', fontSize: 9 }}
+                width={64}
+              />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b', borderRadius: '4px', color: '#f8fafc' }}
+                itemStyle={{ fontSize: '11px', fontFamily: 'monospace' }}
+                labelFormatter={(m) => `+${formatHorizon(Number(m))}`}
+                formatter={(v: any, name: any) => [Array.isArray(v) ? v.map(formatPnl).join(' → ') : formatPnl(Number(v)), name]}
+              />
+              <Area type="monotone" dataKey="band98" stroke="none" fill="#a855f7" fillOpacity={0.12} name="1–99%" isAnimationActive={false} />
+              <Area type="monotone" dataKey="band90" stroke="none" fill="#6366f1" fillOpacity={0.18} name="5–95%" isAnimationActive={false} />
+              <Area type="monotone" dataKey="band50" stroke="none" fill="#3b82f6" fillOpacity={0.25} name="25–75%" isAnimationActive={false} />
+              <Line type="monotone" dataKey="median" stroke="#a5b4fc" strokeWidth={1} strokeDasharray="3 3" dot={false} name="Median" isAnimationActive={false} />
+              <ReferenceLine y={0} stroke="#64748b" strokeOpacity={0.6} />
+              <ReferenceLine y={-risk.var95} stroke="#ef4444" strokeDasharray="4 2" strokeOpacity={0.7} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </>
+    )}
+  </div>
+);
+
+export default PositionRiskPanel;
@@ -0,0 +1,138 @@
+import React, { useRef, useState } from 'react';
+import { Bookmark, Check, Download, Link, Save, Upload, X } from 'lucide-react';
+import { Preset, exportPresets, parsePresetFile } from '../services/presetStore';
+import { Scenario } from '../utils/scenario';
+import { expiryCode } from '../utils/expiry';
+
+interface PresetsPanelProps {
+  presets: Preset[];
+  onSave: (name: string) => void;
+  onLoad: (preset: Preset) => void;
+  onDelete: (id: string) => void;
+  onImport: (presets: Preset[]) => void;
+  onCopyLink: () => Promise<void>;
+}
+
+// Expiry presets name their contract date rather than a length
+const horizonLabel = (scenario: Partial<Scenario>) => {
+  if (scenario.horizonMode === 'expiry' && scenario.expiry) return expiryCode(scenario.expiry);
+  return scenario.timeMinutes !== undefined ? `${scenario.timeMinutes}m` : '';
+};
+
+const PresetsPanel: React.FC<PresetsPanelProps> = ({ presets, onSave, onLoad, onDelete, onImport, onCopyLink }) => {
+  const [name, setName] = useState<string>('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const save = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+  };
+
+  const copyLink = async () => {
+    try {
+      await onCopyLink();
+      setMessage({ text: 'Scenario link copied', isError: false });
+    } catch {
+      setMessage({ text: 'Clipboard unavailable; copy the address bar instead', isError: true });
+    }
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parsePresetFile(await file.text());
+      onImport(imported);
+      setMessage({ text: `Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}`, isError: false });
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : 'Import failed', isError: true });
+    }
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-lg p-6 shadow-xl space-y-5">
+      <div className="flex items-center justify-between pb-4 border-b border-slate-800">
+        <div className="flex items-center gap-2 text-white font-semibold">
+          <Bookmark className="text-sky-500" size={18} /> Scenarios
+        </div>
+        <button
+          onClick={copyLink}
+          className="text-[10px] font-mono text-blue-400 hover:text-blue-300 flex items-center gap-1"
+          title="The address bar always holds the current scenario"
+        >
+          <Link size={12} /> Copy Link
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          placeholder="Preset name"
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && save()}
+          className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-3 py-2 text-white text-sm focus:border-blue-500 outline-none"
+        />
+        <button
+          onClick={save}
+          disabled={!name.trim()}
+          className="px-3 rounded-md text-xs font-medium flex items-center gap-2 bg-sky-900/30 text-sky-400 border border-sky-500/30 hover:bg-sky-900/50 disabled:opacity-50"
+        >
+          <Save size={14} /> Save
+        </button>
+      </div>
+
+      {presets.length === 0 ? (
+        <div className="text-xs text-slate-500 italic">No saved presets.</div>
+      ) : (
+        <div className="text-xs max-h-56 overflow-y-auto">
+          {presets.map(preset => (
+            <div key={preset.id} className="flex items-center gap-2 py-1.5 border-t border-slate-800/50">
+              <button onClick={() => onLoad(preset)} className="flex-1 text-left text-slate-300 hover:text-white truncate" title="Load preset">
+                {preset.name}
+              </button>
+              <span className="text-[10px] font-mono text-slate-500">
+                {preset.scenario.asset ?? ''} {horizonLabel(preset.scenario)}
+              </span>
+              <button onClick={() => onDelete(preset.id)} className="text-slate-500 hover:text-red-400" title="Delete preset">
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => exportPresets(presets)}
+          disabled={presets.length === 0}
+          className="text-[10px] font-mono text-slate-400 hover:text-white flex items-center gap-1 disabled:opacity-50"
+        >
+          <Download size={12} /> Export JSON
+        </button>
+        <button onClick={() => fileRef.current?.click()} className="text-[10px] font-mono text-slate-400 hover:text-white flex items-center gap-1">
+          <Upload size={12} /> Import JSON
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            importFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {message && (
+        <div className={`text-[10px] font-mono flex items-center gap-1 ${message.isError ? 'text-red-400' : 'text-emerald-400'}`}>
+          {message.isError ? <X size={12} /> : <Check size={12} />} {message.text}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PresetsPanel;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Scale } from 'lucide-react';
+import { OptionGreeks, OptionPricing } from '../types';
+
+interface PricingPanelProps {
+  pricing: OptionPricing;
+  strike: number;
+  rate: number;      // Drift μ used as r
+  isCall: boolean;   // Target above spot
+}
+
+const ROWS: { key: keyof Omit<OptionPricing, 'd1' | 'd2' | 'discount'>; label: string; call: boolean }[] = [
+  { key: 'call', label: 'Vanilla Call', call: true },
+  { key: 'put', label: 'Vanilla Put', call: false },
+  { key: 'digitalCall', label: 'Digital Call', call: true },
+  { key: 'digitalPut', label: 'Digital Put', call: false },
+];
+
+const fmt = (v: number, d: number) => (Math.abs(v) < 10 ** -d && v !== 0 ? v.toExponential(2) : v.toFixed(d));
+
+const GreekCells = ({ g, isDigital }: { g: OptionGreeks, isDigital: boolean }) => (
+  <>
+    <span className="text-right text-white">{isDigital ? fmt(g.price, 4) : `$${fmt(g.price, 2)}`}</span>
+    <span className="text-right">{fmt(g.delta, 4)}</span>
+    <span className="text-right">{fmt(g.gamma, 6)}</span>
+    <span className="text-right">{fmt(g.vega, 4)}</span>
+    <span className="text-right">{fmt(g.theta, 4)}</span>
+  </>
+);
+
+const PricingPanel: React.FC<PricingPanelProps> = ({ pricing, strike, rate, isCall }) => (
+  <div className="bg-slate-900 border border-slate-800 rounded-lg p-6 shadow-xl relative overflow-hidden">
+    <div className="absolute top-0 left-0 w-1 h-full bg-gradient-to-b from-sky-500 to-blue-500"></div>
+
+    <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+      <div className="flex items-center gap-2 text-slate-200">
+        <Scale size={18} className="text-sky-400" />
+        <h3 className="font-bold text-lg">Option Pricing</h3>
+      </div>
+      <div className="text-[10px] font-mono text-slate-500">
+        K = {strike} · r = μ = {rate.toFixed(3)} · e^(-rt) = {pricing.discount.toFixed(6)}
+      </div>
+    </div>
+
+    <div className="text-xs font-mono text-slate-400">
+      <div className="grid grid-cols-6 gap-2 text-[10px] text-slate-500 uppercase tracking-wider pb-2">
+        <span>Contract</span>
+        <span className="text-right">Price</span>
+        <span className="text-right">Δ</span>
+        <span className="text-right">Γ</span>
+        <span className="text-right">Vega</span>
+        <span className="text-right">Θ / day</span>
+      </div>
+      {ROWS.map(row => (
+        <div
+          key={row.key}
+          className={`grid grid-cols-6 gap-2 py-2 border-t border-slate-800/50 ${row.call === isCall ? 'bg-sky-500/5' : 'opacity-60'}`}
+        >
+          <span className={row.call ? 'text-emerald-400' : 'text-red-400'}>{row.label}</span>
+          <GreekCells g={pricing[row.key]} isDigital={row.key.startsWith('digital')} />
+        </div>
+      ))}
+    </div>
+
+    <p className="text-[10px] text-slate-500 mt-4 leading-relaxed">
+      Digitals pay 1 unit if they finish in the money. Vega is per vol point; theta per calendar day. The highlighted side matches the target.
+    </p>
+  </div>
+);
+
+export default PricingPanel;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Grid3x3 } from 'lucide-react';
+import { ProbabilityGrid } from '../types';
+import { formatHorizon } from '../utils/format';
+
+interface ProbabilityHeatmapProps {
+  grid: ProbabilityGrid;
+  modelLabel: string;
+  targetPrice: number | null; // Highlighted row, when single-target mode matches a strike
+  timeMinutes: number;
+  onSelect: (strike: number, minutes: number) => void;
+}
+
+// Above spot in the "above" green, below in the "below" red; opacity carries the probability
+const ABOVE_RGB = '16, 185, 129';
+const BELOW_RGB = '239, 68, 68';
+
+// A one-sided move past a strike tops out near 50%, so that is full colour
+const cellStyle = (p: number, above: boolean) => {
+  const alpha = 0.04 + 0.86 * Math.min(1, p / 0.5);
+  return { backgroundColor: `rgba(${above ? ABOVE_RGB : BELOW_RGB}, ${alpha.toFixed(3)})`, color: alpha > 0.45 ? '#ffffff' : '#94a3b8' };
+};
+
+// P(Sₜ beyond K) over strikes × horizons; a click loads that cell into the controls
+const ProbabilityHeatmap: React.FC<ProbabilityHeatmapProps> = ({ grid, modelLabel, targetPrice, timeMinutes, onSelect }) => {
+  const spotIndex = grid.strikes.findIndex(k => k < grid.spot);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-lg p-6 shadow-xl relative overflow-hidden">
+      <div className="absolute top-0 left-0 w-1 h-full bg-gradient-to-b from-emerald-500 to-red-500"></div>
+
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2 text-slate-200">
+          <Grid3x3 size={18} className="text-emerald-400" />
+          <h3 className="font-bold text-lg">Probability Heatmap</h3>
+        </div>
+        <div className="text-[10px] font-mono text-slate-500">{modelLabel} · P(Sₜ beyond K)</div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full border-separate border-spacing-0.5 text-[10px] font-mono">
+          <thead>
+            <tr>
+              <th className="text-left text-slate-500 font-bold uppercase tracking-wider pr-2">Strike</th>
+              {grid.horizons.map(m => (
+                <th key={m} className={`px-1 pb-1 font-normal ${m === timeMinutes ? 'text-blue-300' : 'text-slate-500'}`}>
+                  {formatHorizon(m)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {grid.strikes.map((strike, i) => {
+              const above = strike > grid.spot;
+              return (
+                <React.Fragment key={strike}>
+                  {i === spotIndex && (
+                    <tr>
+                      <td className="text-blue-400 pr-2 py-0.5">${grid.spot.toFixed(2)}</td>
+                      <td colSpan={grid.horizons.length} className="text-[9px] text-blue-400/60 text-center border-t border-dashed border-blue-500/40">spot</td>
+                    </tr>
+                  )}
+                  <tr>
+                    <td className={`pr-2 ${strike === targetPrice ? 'text-white font-bold' : 'text-slate-400'}`}>${strike}</td>
+                    {grid.horizons.map((m, j) => {
+                      const p = grid.cells[i][j];
+                      const isSelected = strike === targetPrice && m === timeMinutes;
+                      return (
+                        <td key={m} className="p-0">
+                          <button
+                            onClick={() => onSelect(strike, m)}
+                            style={cellStyle(p, above)}
+                            className={`w-full px-1 py-1 rounded-sm text-center hover:ring-1 hover:ring-white/60 ${isSelected ? 'ring-2 ring-blue-400' : ''}`}
+                            title={`P(Sₜ ${above ? '>' : '<'} $${strike} in ${formatHorizon(m)}) = ${(p * 100).toFixed(2)}%`}
+                          >
+                            {p < 0.001 ? '<0.1' : (p * 100).toFixed(p < 0.1 ? 1 : 0)}
+                          </button>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-3 flex items-center justify-between text-[10px] font-mono text-slate-500">
+        <span>% chance to finish above (green) / below (red) the strike</span>
+        <span>click a cell to load it</span>
+      </div>
+    </div>
+  );
+};
+
+export default ProbabilityHeatmap;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { useYAxisInverseScale } from 'recharts';
+import { ChartPoint } from '../types';
+
+interface ProbeTooltipProps {
+  active?: boolean;
+  payload?: any[];
+  label?: number;
+  coordinate?: { x: number; y: number }; // y follows the pointer
+  formatLabel: (timestamp: number) => string;
+  probe: ((timestamp: number, price: number) => number | null) | null; // P(S_t > price), null when off
+}
+
+const formatValue = (val: any) =>
+  Array.isArray(val) ? `$${val[0].toFixed(2)} - $${val[1].toFixed(2)}` : `$${Number(val).toFixed(2)}`;
+
+// Main chart tooltip; inside the cone it also reads the price under the pointer
+// and shows the odds of finishing above / below it at the hovered time
+const ProbeTooltip: React.FC<ProbeTooltipProps> = ({ active, payload, label, coordinate, formatLabel, probe }) => {
+  const yInverse = useYAxisInverseScale();
+  if (!active || !payload?.length || label === undefined) return null;
+
+  const point: ChartPoint | undefined = payload[0]?.payload;
+  const price = yInverse && coordinate ? Number(yInverse(coordinate.y)) : NaN;
+  const inCone = point?.sigma3 && price >= point.sigma3[0] && price <= point.sigma3[1];
+  const pAbove = probe && inCone ? probe(label, price) : null;
+
+  return (
+    <div className="rounded border px-3 py-2" style={{ backgroundColor: '#0f172a', borderColor: '#1e293b', color: '#f8fafc' }}>
+      <div className="text-xs mb-1">{formatLabel(label)}</div>
+      {payload.filter(item => item.value != null).map(item => (
+        <div key={item.name} className="text-xs font-mono" style={{ color: item.color?.startsWith('url') ? '#94a3b8' : item.color }}>
+          {item.name} : {formatValue(item.value)}
+        </div>
+      ))}
+      {pAbove !== null && (
+        <div className="text-xs font-mono mt-2 pt-2 border-t border-slate-800 text-slate-300">
+          <div className="text-slate-400 mb-0.5">At ${price.toFixed(2)}</div>
+          <span className="text-emerald-400">P(above) {(pAbove * 100).toFixed(2)}%</span>
+          {' · '}
+          <span className="text-red-400">P(below) {((1 - pAbove) * 100).toFixed(2)}%</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProbeTooltip;
@@ -0,0 +1,151 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Circle, Download, FileUp, Pause, Play, Radio, Square, X } from 'lucide-react';
+import { REPLAY_SPEEDS, ReplaySession, ReplayState, TickFileFormat } from '../services/replay';
+
+interface ReplayPanelProps {
+  session: ReplaySession | null;
+  onLoad: (name: string, text: string) => void; // Throws on an unreadable file
+  onEject: () => void;
+  isRecording: boolean;
+  recordedCount: number;
+  onRecord: () => void;
+  onSaveRecording: (format: TickFileFormat) => void;
+  onDiscardRecording: () => void;
+}
+
+const formatClock = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const ReplayPanel: React.FC<ReplayPanelProps> = ({
+  session, onLoad, onEject, isRecording, recordedCount, onRecord, onSaveRecording, onDiscardRecording,
+}) => {
+  const [state, setState] = useState<ReplayState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  // The session reports its cursor on its own clock; only this panel follows it
+  useEffect(() => {
+    if (!session) {
+      setState(null);
+      return;
+    }
+    setState(session.getState());
+    return session.subscribe(setState);
+  }, [session]);
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onLoad(file.name, await file.text());
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not read file');
+    }
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-lg p-6 shadow-xl space-y-5">
+      <div className="flex items-center justify-between pb-4 border-b border-slate-800">
+        <div className="flex items-center gap-2 text-white font-semibold">
+          <Radio className="text-amber-500" size={18} /> Replay
+        </div>
+        <button onClick={() => fileRef.current?.click()} className="text-[10px] font-mono text-slate-400 hover:text-white flex items-center gap-1">
+          <FileUp size={12} /> Load CSV / JSONL
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".csv,.jsonl,.ndjson,.txt,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            loadFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {session && state ? (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-[10px] font-mono">
+            <span className="text-slate-300 truncate" title={session.name}>{session.name}</span>
+            <span className="text-slate-500 shrink-0 ml-2">{session.ticks.length.toLocaleString()} trades</span>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={state.status === 'playing' ? session.pause : session.play}
+              className="p-2 rounded-md bg-amber-900/30 text-amber-400 border border-amber-500/30 hover:bg-amber-900/50"
+              title={state.status === 'playing' ? 'Pause' : 'Play'}
+            >
+              {state.status === 'playing' ? <Pause size={14} /> : <Play size={14} />}
+            </button>
+            <input
+              type="range"
+              min={session.start}
+              max={session.end}
+              step={Math.max(1, Math.round((session.end - session.start) / 1000))}
+              value={state.cursor}
+              onChange={(e) => session.seek(Number(e.target.value))}
+              className="flex-1 h-1.5 bg-slate-800 rounded-full appearance-none cursor-pointer accent-amber-500"
+            />
+            <button onClick={onEject} className="text-slate-500 hover:text-red-400" title="Back to the live feed">
+              <X size={14} />
+            </button>
+          </div>
+          <div className="text-[10px] font-mono text-slate-400 flex justify-between">
+            <span>{formatClock(state.cursor)}</span>
+            <span className="text-slate-500">{state.status === 'ended' ? 'ended' : `ends ${formatClock(session.end)}`}</span>
+          </div>
+
+          <div className="grid grid-cols-7 bg-slate-950 p-1 rounded-lg border border-slate-800">
+            {REPLAY_SPEEDS.map(speed => (
+              <button
+                key={speed}
+                onClick={() => session.setSpeed(speed)}
+                className={`py-1 text-[10px] font-mono rounded ${state.speed === speed ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {speed}x
+              </button>
+            ))}
+          </div>
+          <div className="text-[10px] text-slate-500">
+            Implied vol and funding still come from the live venues; forecasts, pins and alerts are paused until the live feed returns.
+          </div>
+        </div>
+      ) : (
+        <div className="text-xs text-slate-500 italic">Live feed. Load a recorded trade file (timestamp, price, qty) to replay it offline.</div>
+      )}
+
+      {error && <div className="text-[10px] font-mono text-red-400 flex items-center gap-1"><X size={12} /> {error}</div>}
+
+      <div className="flex items-center gap-3 pt-4 border-t border-slate-800">
+        {isRecording ? (
+          <>
+            <span className="text-[10px] font-mono text-red-400 flex items-center gap-1 flex-1">
+              <Circle size={10} className="fill-red-500 animate-pulse" /> {recordedCount.toLocaleString()} trades
+            </span>
+            {(['csv', 'jsonl'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => onSaveRecording(format)}
+                disabled={recordedCount === 0}
+                className="text-[10px] font-mono text-slate-400 hover:text-white flex items-center gap-1 disabled:opacity-50"
+              >
+                <Download size={12} /> .{format}
+              </button>
+            ))}
+            <button onClick={onDiscardRecording} className="text-slate-500 hover:text-red-400" title="Stop without saving">
+              <Square size={12} />
+            </button>
+          </>
+        ) : (
+          <button onClick={onRecord} className="text-[10px] font-mono text-slate-400 hover:text-white flex items-center gap-1">
+            <Circle size={10} className="text-red-500" /> Record feed
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReplayPanel;
@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react';
+import { Layers } from 'lucide-react';
+
+export interface LadderRow {
+  K: number;
+  zScore: number;
+  pAbove: number;
+  pBelow: number;
+  touch: number;
+}
+
+interface StrikeLadderProps {
+  spot: number;
+  targetPrice: number;
+  priceDecimals: number;
+  evaluate: (K: number) => LadderRow;
+  onSelectStrike: (K: number) => void;
+}
+
+type LadderMode = 'grid' | 'list';
+
+// Guards against a runaway table from a tiny step
+const MAX_ROWS = 81;
+
+const pct = (p: number) => `${(p * 100).toFixed(2)}%`;
+
+const StrikeLadder: React.FC<StrikeLadderProps> = ({ spot, targetPrice, priceDecimals, evaluate, onSelectStrike }) => {
+  const [mode, setMode] = useState<LadderMode>('grid');
+  const [widthPct, setWidthPct] = useState<number>(2);
+  const [stepPct, setStepPct] = useState<number>(0.25);
+  const [customStrikes, setCustomStrikes] = useState<string>('');
+
+  const strikes = useMemo(() => {
+    const scale = 10 ** priceDecimals;
+    const round = (v: number) => Math.round(v * scale) / scale;
+
+    if (mode === 'list') {
+      const listed = customStrikes
+        .split(/[\s,;]+/)
+        .map(parseFloat)
+        .filter(k => Number.isFinite(k) && k > 0)
+        .map(round);
+      // Repeats (or strikes equal after rounding) would be the same row twice
+      return [...new Set(listed)].slice(0, MAX_ROWS);
+    }
+
+    if (!(stepPct > 0) || !(widthPct > 0)) return [];
+    const n = Math.min(Math.floor(widthPct / stepPct), (MAX_ROWS - 1) / 2);
+    const grid: number[] = [];
+    for (let i = n; i >= -n; i--) grid.push(round(spot * (1 + (i * stepPct) / 100)));
+    // Rounding can collapse neighbouring strikes on low-priced assets
+    return [...new Set(grid)];
+  }, [mode, customStrikes, widthPct, stepPct, spot, priceDecimals]);
+
+  const rows = useMemo(() => strikes.map(evaluate).sort((a, b) => b.K - a.K), [strikes, evaluate]);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-lg p-6 shadow-xl relative overflow-hidden">
+      <div className="absolute top-0 left-0 w-1 h-full bg-gradient-to-b from-indigo-500 to-purple-500"></div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-2 text-slate-200">
+          <Layers size={18} className="text-indigo-400" />
+          <h3 className="font-bold text-lg">Strike Ladder</h3>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <div className="grid grid-cols-2 bg-slate-950 p-1 rounded-lg border border-slate-800">
+            {(['grid', 'list'] as LadderMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-3 py-1 rounded-md text-xs font-medium capitalize ${mode === m ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+
+          {mode === 'grid' ? (
+            <div className="flex items-center gap-2 text-[10px] font-mono text-slate-500">
+              ±
+              <input
+                type="number" step="0.5" min="0" value={widthPct}
+                onChange={(e) => setWidthPct(parseFloat(e.target.value) || 0)}
+                className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-white text-xs focus:border-blue-500 outline-none"
+              />
+              % step
+              <input
+                type="number" step="0.05" min="0" value={stepPct}
+                onChange={(e) => setStepPct(parseFloat(e.target.value) || 0)}
+                className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-white text-xs focus:border-blue-500 outline-none"
+              />
+              %
+            </div>
+          ) : (
+            <input
+              type="text"
+              value={customStrikes}
+              placeholder="e.g. 2900, 3000, 3100"
+              onChange={(e) => setCustomStrikes(e.target.value)}
+              className="w-56 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-white font-mono text-xs focus:border-blue-500 outline-none"
+            />
+          )}
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-xs text-slate-500 italic">No strikes to evaluate.</div>
+      ) : (
+        <div className="text-xs font-mono max-h-80 overflow-y-auto">
+          <div className="grid grid-cols-5 gap-2 text-[10px] text-slate-500 uppercase tracking-wider pb-2 sticky top-0 bg-slate-900">
+            <span>Strike</span>
+            <span className="text-right">P(Above)</span>
+            <span className="text-right">P(Below)</span>
+            <span className="text-right">Touch</span>
+            <span className="text-right">Z-Score</span>
+          </div>
+          {rows.map(row => {
+            const isTarget = row.K === targetPrice;
+            const isAbove = row.K > spot;
+            return (
+              <button
+                key={row.K}
+                onClick={() => onSelectStrike(row.K)}
+                className={`w-full grid grid-cols-5 gap-2 py-1.5 border-t border-slate-800/50 text-left hover:bg-slate-800/40 ${isTarget ? 'bg-indigo-500/10' : ''}`}
+                title="Use as target"
+              >
+                <span className={isAbove ? 'text-emerald-400' : 'text-red-400'}>{row.K.toFixed(priceDecimals)}</span>
+                <span className={`text-right ${isAbove ? 'text-white' : 'text-slate-500'}`}>{pct(row.pAbove)}</span>
+                <span className={`text-right ${isAbove ? 'text-slate-500' : 'text-white'}`}>{pct(row.pBelow)}</span>
+                <span className="text-right text-emerald-300">{pct(row.touch)}</span>
+                <span className="text-right text-slate-400">{row.zScore.toFixed(3)}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StrikeLadder;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { usePlotArea, useYAxisScale, useYAxisInverseScale } from 'recharts';
+
+interface TargetDragLayerProps {
+  levels: number[];                            // Target K, or [L, U] in range mode
+  onMove: (index: number, price: number) => void;
+  placeOnClick: boolean;                       // Clicks anywhere in the plot move the nearest level
+}
+
+// Grab area around each level line, in px
+const HANDLE_HEIGHT = 10;
+
+// ~4 significant figures: whole dollars at 3000, cents at 1.5
+const roundPrice = (price: number) => {
+  const step = 10 ** (Math.floor(Math.log10(price)) - 3);
+  return Math.round(price / step) * step;
+};
+
+// Rendered inside the ComposedChart so it shares the chart's y scale
+const TargetDragLayer: React.FC<TargetDragLayerProps> = ({ levels, onMove, placeOnClick }) => {
+  const plot = usePlotArea();
+  const yScale = useYAxisScale();
+  const yInverse = useYAxisInverseScale();
+  const [dragging, setDragging] = useState<number | null>(null);
+  if (!plot || !yScale || !yInverse) return null;
+
+  const priceAt = (e: React.PointerEvent<SVGRectElement>) => {
+    const top = e.currentTarget.ownerSVGElement!.getBoundingClientRect().top;
+    const y = Math.min(plot.y + plot.height, Math.max(plot.y, e.clientY - top));
+    return roundPrice(Number(yInverse(y)));
+  };
+
+  const grab = (index: number, e: React.PointerEvent<SVGRectElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    e.stopPropagation();
+    setDragging(index);
+  };
+  const drag = (e: React.PointerEvent<SVGRectElement>) => {
+    if (dragging === null) return;
+    const price = priceAt(e);
+    if (price > 0) onMove(dragging, price);
+  };
+  const release = () => setDragging(null);
+
+  const place = (e: React.PointerEvent<SVGRectElement>) => {
+    const price = priceAt(e);
+    if (!(price > 0)) return;
+    const nearest = levels.reduce((best, level, i) => (Math.abs(level - price) < Math.abs(levels[best] - price) ? i : best), 0);
+    onMove(nearest, price);
+    grab(nearest, e);
+  };
+
+  return (
+    <g>
+      {placeOnClick && (
+        <rect
+          x={plot.x} y={plot.y} width={plot.width} height={plot.height}
+          fill="transparent" style={{ cursor: 'crosshair' }}
+          onPointerDown={place} onPointerMove={drag} onPointerUp={release}
+        />
+      )}
+      {levels.map((level, i) => {
+        const y = yScale(level);
+        if (y === undefined || y < plot.y || y > plot.y + plot.height) return null;
+        return (
+          <rect
+            key={i}
+            x={plot.x} y={y - HANDLE_HEIGHT / 2} width={plot.width} height={HANDLE_HEIGHT}
+            fill="transparent" style={{ cursor: 'ns-resize' }}
+            onPointerDown={(e) => grab(i, e)} onPointerMove={drag} onPointerUp={release}
+          />
+        );
+      })}
+    </g>
+  );
+};
+
+export default TargetDragLayer;
@@ -0,0 +1,62 @@
+import React from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceDot,
+  CartesianGrid
+} from 'recharts';
+import { TermPoint } from '../quant';
+
+interface TermStructureChartProps {
+  points: TermPoint[];
+  horizonYears: number;
+  horizonVol: number; // %, interpolated at the horizon
+}
+
+const HORIZON_DOT_STYLE = { fill: '#10b981', stroke: '#ecfdf5', strokeWidth: 1 };
+
+const formatDays = (days: number) => (days < 1 ? `${Math.round(days * 24)}h` : `${+days.toFixed(days < 10 ? 1 : 0)}d`);
+
+// ATM implied vol per listed expiry, days on a log axis so the 1m-24h horizons stay visible
+const TermStructureChart: React.FC<TermStructureChartProps> = ({ points, horizonYears, horizonVol }) => {
+  const data = points.map(p => ({ days: p.t * 365, iv: p.atmIv * 100, expiry: p.expiry }));
+  const horizonDays = horizonYears * 365;
+
+  return (
+    <div className="h-32 bg-slate-950 border border-slate-800 rounded">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 10, right: 12, bottom: 0, left: -18 }}>
+          <CartesianGrid strokeDasharray="2 6" stroke="#1e293b" vertical={false} />
+          <XAxis
+            type="number" dataKey="days" scale="log" domain={[Math.min(horizonDays, data[0]?.days ?? 1), 'dataMax']}
+            tickFormatter={formatDays}
+            stroke="#334155" tick={{ fill: '#64748b', fontSize: 9 }}
+            allowDataOverflow
+          />
+          <YAxis
+            type="number" domain={['auto', 'auto']}
+            tickFormatter={(v) => `${Math.round(v)}%`}
+            stroke="#334155" tick={{ fill: '#64748b', fontSize: 9 }}
+          />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b', borderRadius: '4px', color: '#f8fafc' }}
+            itemStyle={{ fontSize: '11px', fontFamily: 'monospace' }}
+            labelFormatter={(_, payload) => {
+              const expiry = payload?.[0]?.payload?.expiry;
+              return expiry ? new Date(expiry).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }) : '';
+            }}
+            formatter={(v: any) => [`${Number(v).toFixed(2)}%`, 'ATM IV']}
+          />
+          <Line type="linear" dataKey="iv" stroke="#a78bfa" strokeWidth={1.5} dot={{ r: 2, fill: '#a78bfa' }} isAnimationActive={false} />
+          <ReferenceDot x={horizonDays} y={horizonVol} r={4} {...HORIZON_DOT_STYLE} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default TermStructureChart;
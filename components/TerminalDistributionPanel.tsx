@@ -0,0 +1,119 @@
+import React from 'react';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  CartesianGrid
+} from 'recharts';
+import { BarChart3 } from 'lucide-react';
+import { TerminalPriceSummary } from '../utils/distributions';
+import { formatHorizon } from '../utils/format';
+
+interface TerminalDistributionPanelProps {
+  summary: TerminalPriceSummary;
+  region: [number, number];  // Shaded price interval; [K, ∞) above, (0, K] below, [L, U] in range mode
+  probability: number;       // Mass of the shaded region under the same model
+  modelLabel: string;
+  timeMinutes: number;
+}
+
+// Same palette as the cone's 1σ / 2σ / 3σ gradients
+const BAND_COLORS = ['#0ea5e9', '#4338ca', '#7e22ce'];
+
+const MARKERS = [
+  { key: 'mean', label: 'Mean', color: '#f8fafc' },
+  { key: 'median', label: 'Med', color: '#a5b4fc' },
+  { key: 'mode', label: 'Mode', color: '#fbbf24' },
+] as const;
+
+// Density of S_t at the horizon with the target region shaded; CDF on the right axis
+const TerminalDistributionPanel: React.FC<TerminalDistributionPanelProps> = ({ summary, region, probability, modelLabel, timeMinutes }) => {
+  const [lower, upper] = region;
+  const data = summary.points.map(p => ({
+    ...p,
+    region: p.price >= lower && p.price <= upper ? p.pdf : undefined,
+  }));
+  // Probability label sits at the middle of the visible part of the shaded region
+  const shaded = data.filter(d => d.region !== undefined);
+  const labelAt = shaded.length ? shaded[Math.floor(shaded.length / 2)] : null;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-lg p-6 shadow-xl relative overflow-hidden">
+      <div className="absolute top-0 left-0 w-1 h-full bg-gradient-to-b from-sky-500 to-purple-600"></div>
+
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2 text-slate-200">
+          <BarChart3 size={18} className="text-sky-400" />
+          <h3 className="font-bold text-lg">Terminal Distribution</h3>
+        </div>
+        <div className="text-[10px] font-mono text-slate-500">{modelLabel} · Sₜ at +{formatHorizon(timeMinutes)}</div>
+      </div>
+
+      <div className="h-56 bg-slate-950 border border-slate-800 rounded">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} margin={{ top: 18, right: 0, bottom: 0, left: -28 }}>
+            <CartesianGrid strokeDasharray="2 6" stroke="#1e293b" vertical={false} />
+            <XAxis
+              type="number" dataKey="price" domain={['dataMin', 'dataMax']}
+              tickFormatter={(v) => `$${Math.round(v)}`}
+              stroke="#334155" tick={{ fill: '#64748b', fontSize: 9 }}
+              minTickGap={24}
+            />
+            <YAxis yAxisId="pdf" hide domain={[0, 'auto']} />
+            <YAxis
+              yAxisId="cdf" orientation="right" domain={[0, 1]}
+              tickFormatter={(v) => `${Math.round(v * 100)}%`}
+              stroke="#334155" tick={{ fill: '#64748b', fontSize: 9 }}
+              width={34}
+            />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b', borderRadius: '4px', color: '#f8fafc' }}
+              itemStyle={{ fontSize: '11px', fontFamily: 'monospace' }}
+              labelFormatter={(v) => `Sₜ = $${Number(v).toFixed(2)}`}
+              formatter={(v: any, name: any) => [name === 'CDF' ? `${(Number(v) * 100).toFixed(2)}%` : Number(v).toExponential(3), name]}
+            />
+
+            {summary.bands.map(([lo, hi], i) => (
+              <React.Fragment key={i}>
+                <ReferenceLine yAxisId="pdf" x={lo} stroke={BAND_COLORS[i]} strokeDasharray="2 3" strokeOpacity={0.8} label={{ value: `-${i + 1}σ`, position: 'insideBottomLeft', fill: BAND_COLORS[i], fontSize: 9 }} />
+                <ReferenceLine yAxisId="pdf" x={hi} stroke={BAND_COLORS[i]} strokeDasharray="2 3" strokeOpacity={0.8} label={{ value: `+${i + 1}σ`, position: 'insideBottomRight', fill: BAND_COLORS[i], fontSize: 9 }} />
+              </React.Fragment>
+            ))}
+
+            <Area yAxisId="pdf" type="monotone" dataKey="pdf" stroke="#60a5fa" strokeWidth={1.5} fill="#3b82f6" fillOpacity={0.12} name="Density" dot={false} isAnimationActive={false} />
+            <Area yAxisId="pdf" type="monotone" dataKey="region" stroke="none" fill="#10b981" fillOpacity={0.35} tooltipType="none" legendType="none" isAnimationActive={false} />
+            <Line yAxisId="cdf" type="monotone" dataKey="cdf" stroke="#94a3b8" strokeWidth={1} strokeDasharray="4 3" dot={false} name="CDF" isAnimationActive={false} />
+
+            {MARKERS.map((m, i) => (
+              <ReferenceLine
+                key={m.key} yAxisId="pdf" x={summary[m.key]} stroke={m.color} strokeOpacity={0.7}
+                label={{ value: m.label, position: 'top', fill: m.color, fontSize: 9, dy: i * 9 - 9 }}
+              />
+            ))}
+            {labelAt && (
+              <ReferenceLine
+                yAxisId="pdf" x={labelAt.price} stroke="none"
+                label={{ value: `${(probability * 100).toFixed(1)}%`, position: 'center', fill: '#34d399', fontSize: 12, fontWeight: 'bold' }}
+              />
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mt-3 text-[10px] font-mono text-slate-400">
+        {MARKERS.map(m => (
+          <div key={m.key}>
+            <span className="text-slate-500 uppercase">{m.key}</span> <span className="text-white">${summary[m.key].toFixed(2)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TerminalDistributionPanel;
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { barrierHitProbability, coneBounds, gbmQuantile, gbmTerminal } from './gbm';
+
+const S = 3000;
+const sigma = 0.6;
+const t = 1 / 365;
+
+describe('gbmTerminal', () => {
+  it('splits the mass between above and below', () => {
+    const { pAbove, pBelow } = gbmTerminal(S, 3100, 0.05, sigma, t);
+    expect(pAbove + pBelow).toBe(1);
+    expect(pAbove).toBeLessThan(0.5);
+  });
+
+  it('puts the median at S·e^(νt)', () => {
+    const mu = 0.2;
+    const median = S * Math.exp((mu - 0.5 * sigma * sigma) * t);
+    expect(gbmTerminal(S, median, mu, sigma, t).pAbove).toBeCloseTo(0.5, 12);
+  });
+});
+
+describe('barrierHitProbability', () => {
+  it('is twice the terminal probability without drift (reflection principle)', () => {
+    const b = Math.log(3150 / S);
+    const terminal = gbmTerminal(S, 3150, 0.5 * sigma * sigma, sigma, t).pAbove;
+    expect(barrierHitProbability(b, 0, sigma, t).probability).toBeCloseTo(2 * terminal, 12);
+  });
+
+  it('is certain at the spot', () => {
+    expect(barrierHitProbability(0, 0.1, sigma, t).probability).toBe(1);
+  });
+});
+
+describe('cone', () => {
+  it('brackets the median with the matching quantiles', () => {
+    const nu = -0.1;
+    const [lo, hi] = coneBounds(S, nu, sigma, t, 2);
+    expect(lo).toBeCloseTo(gbmQuantile(S, nu, sigma, t, 0.022750131948179195), 8);
+    expect(hi).toBeCloseTo(gbmQuantile(S, nu, sigma, t, 1 - 0.022750131948179195), 8);
+  });
+});
@@ -0,0 +1,78 @@
+import { cumulativeDistribution, inverseCumulativeDistribution } from './normal';
+
+// --- GBM: TERMINAL, TOUCH AND CONE ---
+// S_t = S_0 · e^X with X ~ N(νt, σ²t) and ν = μ - σ²/2 (Ito's correction).
+// All rates are annualized decimals and t is in years.
+
+export interface TerminalProbability {
+  logReturn: number;       // b = ln(K/S)
+  driftCorrection: number; // ν = μ - σ²/2
+  driftTerm: number;       // νt, mean of ln(S_t/S_0)
+  diffusionTerm: number;   // σ√t, its standard deviation
+  zScore: number;          // How many standard deviations K sits from the mean
+  pBelow: number;          // P(S_t < K) = N(z)
+  pAbove: number;          // P(S_t > K) = 1 - N(z)
+}
+
+/**
+ * Probability of finishing above/below K at t, with the intermediate terms
+ * z = (ln(K/S) - νt) / σ√t that the notebook shows.
+ */
+export function gbmTerminal(S: number, K: number, mu: number, sigma: number, t: number): TerminalProbability {
+  const logReturn = Math.log(K / S);
+  const driftCorrection = mu - 0.5 * sigma * sigma;
+  const driftTerm = driftCorrection * t;
+  const diffusionTerm = sigma * Math.sqrt(t);
+  const zScore = (logReturn - driftTerm) / diffusionTerm;
+  const pBelow = cumulativeDistribution(zScore);
+  return { logReturn, driftCorrection, driftTerm, diffusionTerm, zScore, pBelow, pAbove: 1 - pBelow };
+}
+
+/**
+ * First-passage (barrier touch) probability for arithmetic Brownian motion in log space.
+ * X_t = νt + σW_t, barrier b = ln(K/S). Uses the reflection principle with drift:
+ *   b > 0: P(max X ≥ b) = N((-b + νt)/σ√t) + e^(2νb/σ²) · N((-b - νt)/σ√t)
+ *   b < 0: P(min X ≤ b) = N(( b - νt)/σ√t) + e^(2νb/σ²) · N(( b + νt)/σ√t)
+ */
+export function barrierHitProbability(b: number, nu: number, sigma: number, t: number) {
+  const diffusion = sigma * Math.sqrt(t);
+  if (b === 0 || diffusion === 0) {
+    const hit = b === 0 || (b > 0 ? nu * t >= b : nu * t <= b);
+    return { directTerm: hit ? 1 : 0, reflectionFactor: 0, reflectedTerm: 0, probability: hit ? 1 : 0 };
+  }
+
+  // s flips the formulas between an upper (b > 0) and lower (b < 0) barrier
+  const s = b > 0 ? 1 : -1;
+  const directTerm = cumulativeDistribution(s * (nu * t - b) / diffusion);
+  const reflectionFactor = Math.exp((2 * nu * b) / (sigma * sigma));
+  const reflectedTerm = cumulativeDistribution(-s * (b + nu * t) / diffusion);
+  const probability = Math.min(1, directTerm + reflectionFactor * reflectedTerm);
+
+  return { directTerm, reflectionFactor, reflectedTerm, probability };
+}
+
+/**
+ * Terminal and touch probabilities for one strike, given log drift ν = μ - σ²/2.
+ */
+export function evaluateStrike(S: number, K: number, nu: number, sigma: number, t: number) {
+  const b = Math.log(K / S);
+  const zScore = (b - nu * t) / (sigma * Math.sqrt(t));
+  const pBelow = cumulativeDistribution(zScore);
+  return { K, zScore, pAbove: 1 - pBelow, pBelow, touch: barrierHitProbability(b, nu, sigma, t).probability };
+}
+
+/**
+ * Price level with P(S_t ≤ level) = p.
+ */
+export function gbmQuantile(S: number, nu: number, sigma: number, t: number, p: number): number {
+  return S * Math.exp(nu * t + sigma * Math.sqrt(t) * inverseCumulativeDistribution(p));
+}
+
+/**
+ * The nσ cone at t: [S·e^(νt - nσ√t), S·e^(νt + nσ√t)].
+ */
+export function coneBounds(S: number, nu: number, sigma: number, t: number, n: number): [number, number] {
+  const centre = nu * t;
+  const width = n * sigma * Math.sqrt(t);
+  return [S * Math.exp(centre - width), S * Math.exp(centre + width)];
+}
@@ -0,0 +1,36 @@
+// --- QUANT CORE ---
+// Framework-free maths shared by the dashboard and the CLI. Nothing in here
+// touches React, the DOM or the network.
+
+export { cumulativeDistribution, normalDensity, inverseCumulativeDistribution } from './normal';
+export {
+  gbmTerminal,
+  barrierHitProbability,
+  evaluateStrike,
+  gbmQuantile,
+  coneBounds,
+  type TerminalProbability,
+} from './gbm';
+export { blackScholes } from './options';
+export {
+  atmImpliedVol,
+  buildTermStructure,
+  interpolateTermVol,
+  type OptionQuote,
+  type TermPoint,
+  type TermVolEstimate,
+} from './termStructure';
+export { positionRisk, type Position, type PositionRisk, type PositionSide } from './risk';
+export {
+  gbmDistribution,
+  mertonDistribution,
+  studentTDistribution,
+  SIGMA_TAILS,
+  terminalPriceDistribution,
+  type LogReturnDistribution,
+  type MertonParams,
+  type ModelKind,
+  type TerminalPriceSummary,
+} from '../utils/distributions';
+export { realizedVolatility, VOL_ESTIMATORS, type VolEstimator } from '../utils/volatility';
+export { aggregateCandles } from '../utils/candles';
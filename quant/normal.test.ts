@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { cumulativeDistribution, inverseCumulativeDistribution, normalDensity } from './normal';
+
+describe('cumulativeDistribution', () => {
+  it('matches tabulated values', () => {
+    expect(cumulativeDistribution(0)).toBe(0.5);
+    expect(cumulativeDistribution(1)).toBeCloseTo(0.8413447460685429, 14);
+    expect(cumulativeDistribution(-1.96)).toBeCloseTo(0.024997895148220435, 14);
+  });
+
+  it('keeps relative precision deep in the lower tail', () => {
+    const p = cumulativeDistribution(-10);
+    expect(Math.abs(p / 7.619853024160527e-24 - 1)).toBeLessThan(1e-12);
+  });
+
+  it('is symmetric', () => {
+    for (const x of [0.3, 1.7, 4.2]) expect(cumulativeDistribution(x) + cumulativeDistribution(-x)).toBeCloseTo(1, 15);
+  });
+});
+
+describe('inverseCumulativeDistribution', () => {
+  it('round-trips through the CDF', () => {
+    for (const p of [1e-12, 0.001, 0.025, 0.3, 0.5, 0.9, 0.999]) {
+      expect(cumulativeDistribution(inverseCumulativeDistribution(p)) / p).toBeCloseTo(1, 10);
+    }
+  });
+});
+
+describe('normalDensity', () => {
+  it('peaks at 1/√(2π)', () => {
+    expect(normalDensity(0)).toBeCloseTo(1 / Math.sqrt(2 * Math.PI), 15);
+  });
+});
@@ -0,0 +1,66 @@
+import { OptionPricing } from '../types';
+import { cumulativeDistribution, normalDensity } from './normal';
+
+// --- OPTION PRICING ---
+
+/**
+ * Black-Scholes prices and Greeks (no dividends) for vanilla and cash-or-nothing options.
+ * r is the continuously compounded rate; vega is per vol point, theta per calendar day.
+ */
+export function blackScholes(S: number, K: number, r: number, sigma: number, t: number): OptionPricing {
+  const sqrtT = Math.sqrt(t);
+  const d1 = (Math.log(S / K) + (r + 0.5 * sigma * sigma) * t) / (sigma * sqrtT);
+  const d2 = d1 - sigma * sqrtT;
+  const discount = Math.exp(-r * t);
+  const pdf1 = normalDensity(d1);
+  const pdf2 = normalDensity(d2);
+  const Nd1 = cumulativeDistribution(d1);
+  const Nd2 = cumulativeDistribution(d2);
+
+  const gamma = pdf1 / (S * sigma * sqrtT);
+  const vega = S * pdf1 * sqrtT;
+  const decay = -(S * pdf1 * sigma) / (2 * sqrtT);
+
+  // Digital sensitivities, via ∂d2/∂S = 1/(Sσ√t), ∂d2/∂σ = -d1/σ, ∂d2/∂t = r/(σ√t) - d1/(2t)
+  const digitalDelta = (discount * pdf2) / (S * sigma * sqrtT);
+  const digitalGamma = -(discount * pdf2 * d1) / (S * S * sigma * sigma * t);
+  const digitalVega = -(discount * pdf2 * d1) / sigma;
+  const dd2dt = r / (sigma * sqrtT) - d1 / (2 * t);
+  const digitalCallTheta = r * discount * Nd2 - discount * pdf2 * dd2dt;
+  const digitalPutTheta = r * discount * (1 - Nd2) + discount * pdf2 * dd2dt;
+
+  const perDay = (theta: number) => theta / 365;
+  const perPoint = (v: number) => v / 100;
+
+  return {
+    d1, d2, discount,
+    call: {
+      price: S * Nd1 - K * discount * Nd2,
+      delta: Nd1,
+      gamma,
+      vega: perPoint(vega),
+      theta: perDay(decay - r * K * discount * Nd2),
+    },
+    put: {
+      price: K * discount * (1 - Nd2) - S * (1 - Nd1),
+      delta: Nd1 - 1,
+      gamma,
+      vega: perPoint(vega),
+      theta: perDay(decay + r * K * discount * (1 - Nd2)),
+    },
+    digitalCall: {
+      price: discount * Nd2,
+      delta: digitalDelta,
+      gamma: digitalGamma,
+      vega: perPoint(digitalVega),
+      theta: perDay(digitalCallTheta),
+    },
+    digitalPut: {
+      price: discount * (1 - Nd2),
+      delta: -digitalDelta,
+      gamma: -digitalGamma,
+      vega: perPoint(-digitalVega),
+      theta: perDay(digitalPutTheta),
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { positionRisk, Position } from './risk';
+
+const S = 3000;
+const nu = 0.05;
+const sigma = 0.6;
+const t = 7 / 365;
+
+const long = (patch: Partial<Position> = {}): Position => ({ side: 'long', size: 2, entry: 2900, stop: null, takeProfit: null, ...patch });
+
+describe('positionRisk', () => {
+  it('prices an unhedged long at E[S_t] = S·e^((ν + σ²/2)t)', () => {
+    const risk = positionRisk(S, long(), nu, sigma, t)!;
+    const expected = 2 * (S * Math.exp((nu + 0.5 * sigma * sigma) * t) - 2900);
+    expect(risk.expectedPnl).toBeCloseTo(expected, 6);
+    expect(risk.pStop).toBe(0);
+    expect(risk.pTakeProfit).toBe(0);
+  });
+
+  it('mirrors a long with a short', () => {
+    const longRisk = positionRisk(S, long(), nu, sigma, t)!;
+    const shortRisk = positionRisk(S, long({ side: 'short' }), nu, sigma, t)!;
+    expect(shortRisk.expectedPnl).toBeCloseTo(-longRisk.expectedPnl, 6);
+    expect(shortRisk.pnlQuantile(0.25)).toBeCloseTo(-longRisk.pnlQuantile(0.75), 4);
+  });
+
+  it('caps the loss at the stop', () => {
+    const risk = positionRisk(S, long({ stop: 2800, takeProfit: 3300 }), nu, sigma, t)!;
+    expect(risk.var99).toBeLessThanOrEqual(2 * (2900 - 2800) + 1e-6);
+    expect(risk.es99).toBeLessThanOrEqual(2 * (2900 - 2800) + 1e-6);
+    expect(risk.pStop + risk.pTakeProfit).toBeLessThanOrEqual(1);
+    expect(risk.var95).toBeLessThanOrEqual(risk.var99);
+  });
+
+  it('rejects a level already through the spot', () => {
+    expect(positionRisk(S, long({ stop: 3010 }), nu, sigma, t)).toBeNull();
+    expect(positionRisk(S, long({ side: 'short', takeProfit: 3010 }), nu, sigma, t)).toBeNull();
+  });
+});
@@ -0,0 +1,186 @@
+import { cumulativeDistribution } from './normal';
+
+// --- POSITION RISK ---
+// P&L of a linear position held until t or until its stop / take-profit trades,
+// with log price X_t = νt + σW_t as in gbm.ts. The barriers are handled in closed
+// form by the method of images, so every figure moves smoothly with the spot.
+
+export type PositionSide = 'long' | 'short';
+
+export interface Position {
+  side: PositionSide;
+  size: number;              // Units of the asset
+  entry: number;
+  stop: number | null;
+  takeProfit: number | null;
+}
+
+export interface PositionRisk {
+  expectedPnl: number;
+  var95: number;        // Loss not exceeded with 95% probability (positive = loss)
+  var99: number;
+  es95: number;         // Mean loss in the worst 5%
+  es99: number;
+  pStop: number;        // Stop trades first, before t
+  pTakeProfit: number;  // Take-profit trades first, before t
+  pnlQuantile: (p: number) => number;
+}
+
+// Φ(y) times e^logFactor without ∞ · 0 when the factor overflows
+const scaled = (logFactor: number, y: number) => {
+  const p = cumulativeDistribution(y);
+  return p === 0 ? 0 : Math.exp(logFactor) * p;
+};
+
+/**
+ * P(X hits level c by t); the single-barrier reflection formula of barrierHitProbability.
+ */
+function passage(c: number, nu: number, sigma: number, t: number): number {
+  const d = sigma * Math.sqrt(t);
+  const reflection = (2 * nu * c) / (sigma * sigma);
+  return c > 0
+    ? cumulativeDistribution((nu * t - c) / d) + scaled(reflection, (-c - nu * t) / d)
+    : cumulativeDistribution((c - nu * t) / d) + scaled(reflection, (c + nu * t) / d);
+}
+
+// Image terms needed before they fall below double precision (~40 sd away)
+const imageCount = (width: number, d: number) => Math.min(200, Math.ceil((40 * d) / (2 * width)) + 1);
+
+/**
+ * P(X reaches the upper barrier B > 0 before the lower barrier A < 0, and before t).
+ * Sums first-passage probabilities to the images c = B + 2kW of B, W = B - A, each
+ * weighted by the drift change of measure e^(ν(B - c)/σ²).
+ */
+function upperExitProbability(B: number, A: number, nu: number, sigma: number, t: number): number {
+  if (B === Infinity) return 0;
+  if (A === -Infinity) return passage(B, nu, sigma, t);
+  const W = B - A;
+  const n = imageCount(W, sigma * Math.sqrt(t));
+  let total = 0;
+  for (let k = -n; k <= n; k++) {
+    const c = B + 2 * k * W;
+    total += Math.sign(c) * Math.exp((nu * (B - c)) / (sigma * sigma)) * passage(c, nu, sigma, t);
+  }
+  return Math.min(1, Math.max(0, total));
+}
+
+/**
+ * Image sources of the killed density between A and B: +N at 2kW, -N at 2B + 2kW.
+ */
+function images(A: number, B: number, d: number): { shift: number; sign: number }[] {
+  if (A === -Infinity && B === Infinity) return [{ shift: 0, sign: 1 }];
+  if (A === -Infinity) return [{ shift: 0, sign: 1 }, { shift: 2 * B, sign: -1 }];
+  if (B === Infinity) return [{ shift: 0, sign: 1 }, { shift: 2 * A, sign: -1 }];
+  const W = B - A;
+  const n = imageCount(W, d);
+  const out: { shift: number; sign: number }[] = [];
+  for (let k = -n; k <= n; k++) {
+    out.push({ shift: 2 * k * W, sign: 1 }, { shift: 2 * B + 2 * k * W, sign: -1 });
+  }
+  return out;
+}
+
+interface ExitDistribution {
+  pLower: number;                    // Lower barrier traded first
+  pUpper: number;                    // Upper barrier traded first
+  survive: number;                   // Neither, by t
+  cdf: (x: number) => number;        // P(no exit, X_t ≤ x)
+  partialMean: (x: number) => number; // E[S_t; no exit, X_t ≤ x]
+  solve: (mass: number) => number;   // x with cdf(x) = mass
+}
+
+function exitDistribution(S: number, A: number, B: number, nu: number, sigma: number, t: number): ExitDistribution {
+  const d = sigma * Math.sqrt(t);
+  const m = nu / (sigma * sigma);
+  const sources = images(A, B, d);
+  const mean = nu * t;
+  const variance = sigma * sigma * t;
+
+  // Each image is a normal with mean shift + νt, weighted by e^(m·shift)
+  const cdf = (x: number) => {
+    let total = 0;
+    for (const { shift, sign } of sources) {
+      total += sign * (scaled(m * shift, (x - shift - mean) / d) - scaled(m * shift, (A - shift - mean) / d));
+    }
+    return Math.max(0, total);
+  };
+  // ∫ e^y N(y; c, v) dy shifts the normal by v and scales it by e^(c + v/2)
+  const partialMean = (x: number) => {
+    let total = 0;
+    for (const { shift, sign } of sources) {
+      const log = m * shift + shift + mean + 0.5 * variance;
+      total += sign * (scaled(log, (x - shift - mean - variance) / d) - scaled(log, (A - shift - mean - variance) / d));
+    }
+    return S * Math.max(0, total);
+  };
+  const solve = (mass: number) => {
+    let lo = Math.max(A, mean - 40 * d);
+    let hi = Math.min(B, mean + 40 * d);
+    for (let i = 0; i < 60; i++) {
+      const mid = 0.5 * (lo + hi);
+      if (cdf(mid) < mass) lo = mid; else hi = mid;
+    }
+    return 0.5 * (lo + hi);
+  };
+
+  return {
+    pLower: upperExitProbability(-A, -B, -nu, sigma, t),
+    pUpper: upperExitProbability(B, A, nu, sigma, t),
+    survive: cdf(B),
+    cdf,
+    partialMean,
+    solve,
+  };
+}
+
+/**
+ * P&L distribution, VaR and Expected Shortfall of a position over t, and which
+ * of stop / take-profit is likely to trade first. Exits fill at the level itself.
+ * Null when a level is already through the spot (it would have traded).
+ */
+export function positionRisk(S: number, position: Position, nu: number, sigma: number, t: number): PositionRisk | null {
+  const { side, size, entry, stop, takeProfit } = position;
+  const isLong = side === 'long';
+  const lowerPrice = isLong ? stop : takeProfit;
+  const upperPrice = isLong ? takeProfit : stop;
+  if ((lowerPrice !== null && lowerPrice >= S) || (upperPrice !== null && upperPrice <= S)) return null;
+
+  const A = lowerPrice !== null ? Math.log(lowerPrice / S) : -Infinity;
+  const B = upperPrice !== null ? Math.log(upperPrice / S) : Infinity;
+  const exit = exitDistribution(S, A, B, nu, sigma, t);
+  const { pLower, survive } = exit;
+
+  // Exit price with P(price ≤ q) = u, and E[price; lowest p of outcomes]
+  const priceQuantile = (u: number) => {
+    if (u <= pLower) return lowerPrice!;
+    if (u >= pLower + survive) return upperPrice ?? S * Math.exp(B);
+    return S * Math.exp(exit.solve(u - pLower));
+  };
+  const lowerTailMean = (p: number) => {
+    if (p <= pLower) return p * lowerPrice!;
+    const atLower = pLower > 0 ? pLower * lowerPrice! : 0;
+    if (p <= pLower + survive) return atLower + exit.partialMean(exit.solve(p - pLower));
+    return atLower + exit.partialMean(B) + (p - pLower - survive) * upperPrice!;
+  };
+  const totalMean = lowerTailMean(1);
+
+  const pnl = (price: number) => (isLong ? 1 : -1) * size * (price - entry);
+  // A long loses in the lowest prices, a short in the highest
+  const pnlQuantile = (p: number) => pnl(priceQuantile(isLong ? p : 1 - p));
+  const shortfall = (alpha: number) => {
+    const tail = 1 - alpha;
+    const tailPrice = isLong ? lowerTailMean(tail) / tail : (totalMean - lowerTailMean(1 - tail)) / tail;
+    return -pnl(tailPrice);
+  };
+
+  return {
+    expectedPnl: pnl(totalMean),
+    var95: -pnlQuantile(0.05),
+    var99: -pnlQuantile(0.01),
+    es95: shortfall(0.95),
+    es99: shortfall(0.99),
+    pStop: isLong ? exit.pLower : exit.pUpper,
+    pTakeProfit: isLong ? exit.pUpper : exit.pLower,
+    pnlQuantile,
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { atmImpliedVol, buildTermStructure, interpolateTermVol, OptionQuote } from './termStructure';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = Date.UTC(2025, 0, 1);
+
+const quote = (days: number, strike: number, iv: number, forward = 3000): OptionQuote => ({ expiry: now + days * DAY_MS, strike, iv, forward });
+
+describe('atmImpliedVol', () => {
+  it('interpolates in log-moneyness between the strikes around the forward', () => {
+    const iv = atmImpliedVol([quote(7, 2900, 0.7), quote(7, 3100, 0.6)]);
+    const x = (k: number) => Math.log(k / 3000);
+    expect(iv).toBeCloseTo(0.7 + (0.6 - 0.7) * (0 - x(2900)) / (x(3100) - x(2900)), 12);
+  });
+
+  it('averages a call and put at the same strike', () => {
+    expect(atmImpliedVol([quote(7, 3000, 0.5), quote(7, 3000, 0.7)])).toBeCloseTo(0.6, 12);
+  });
+});
+
+describe('buildTermStructure', () => {
+  it('keeps one point per expiry, nearest first, skipping ones about to expire', () => {
+    const points = buildTermStructure([quote(30, 3000, 0.55), quote(7, 3000, 0.65), quote(0.01, 3000, 0.9)], now);
+    expect(points.map(p => p.atmIv)).toEqual([0.65, 0.55]);
+    expect(points[0].t).toBeCloseTo(7 / 365, 12);
+  });
+});
+
+describe('interpolateTermVol', () => {
+  const points = buildTermStructure([quote(7, 3000, 0.8), quote(28, 3000, 0.6)], now);
+
+  it('is linear in total variance between expiries', () => {
+    const t = 14 / 365;
+    const [a, b] = points;
+    const w = a.atmIv ** 2 * a.t + (b.atmIv ** 2 * b.t - a.atmIv ** 2 * a.t) * (t - a.t) / (b.t - a.t);
+    expect(interpolateTermVol(points, t)!.iv).toBeCloseTo(Math.sqrt(w / t), 12);
+  });
+
+  it('extrapolates flat in vol', () => {
+    expect(interpolateTermVol(points, 1 / 365)!.iv).toBe(0.8);
+    expect(interpolateTermVol(points, 1)!.iv).toBe(0.6);
+  });
+
+  it('floors forward variance at zero', () => {
+    const inverted = buildTermStructure([quote(7, 3000, 0.9), quote(28, 3000, 0.3)], now);
+    const [a] = inverted;
+    const t = 20 / 365;
+    expect(interpolateTermVol(inverted, t)!.iv).toBeCloseTo(Math.sqrt(a.atmIv ** 2 * a.t / t), 12);
+  });
+});
@@ -0,0 +1,93 @@
+// --- IMPLIED VOLATILITY TERM STRUCTURE ---
+
+export interface OptionQuote {
+  expiry: number;  // Unix ms
+  strike: number;
+  iv: number;      // Mark implied vol, decimal
+  forward: number; // Underlying (futures) price for the expiry
+}
+
+export interface TermPoint {
+  expiry: number;
+  t: number;     // Years to expiry when the curve was built
+  atmIv: number; // Decimal
+  forward: number;
+}
+
+export interface TermVolEstimate {
+  iv: number;               // Decimal, at the requested horizon
+  lower: TermPoint | null;  // Bracketing expiries; one is null when extrapolating flat
+  upper: TermPoint | null;
+}
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+// Expiries this close are dominated by pin risk and stale marks
+const MIN_EXPIRY_MS = 60 * 60 * 1000;
+
+/**
+ * ATM implied vol of one expiry: linear in log-moneyness ln(K/F) between the two
+ * strikes around the forward, with calls and puts at a strike averaged.
+ * Falls back to the nearest strike when the forward is outside the listed range.
+ */
+export function atmImpliedVol(quotes: OptionQuote[]): number | null {
+  if (quotes.length === 0) return null;
+  const forward = quotes.reduce((sum, q) => sum + q.forward, 0) / quotes.length;
+
+  const byStrike = new Map<number, number[]>();
+  for (const q of quotes) byStrike.set(q.strike, [...(byStrike.get(q.strike) ?? []), q.iv]);
+  const smile = [...byStrike.entries()]
+    .map(([strike, ivs]) => ({ x: Math.log(strike / forward), iv: ivs.reduce((a, b) => a + b, 0) / ivs.length }))
+    .sort((a, b) => a.x - b.x);
+
+  const upper = smile.findIndex(s => s.x >= 0);
+  if (upper === -1) return smile[smile.length - 1].iv;
+  if (upper === 0) return smile[0].iv;
+  const lo = smile[upper - 1];
+  const hi = smile[upper];
+  return lo.iv + (hi.iv - lo.iv) * (0 - lo.x) / (hi.x - lo.x);
+}
+
+/**
+ * One ATM point per listed expiry, nearest first.
+ */
+export function buildTermStructure(quotes: OptionQuote[], now: number): TermPoint[] {
+  const byExpiry = new Map<number, OptionQuote[]>();
+  for (const q of quotes) {
+    if (q.expiry - now < MIN_EXPIRY_MS || !(q.iv > 0) || !(q.forward > 0)) continue;
+    byExpiry.set(q.expiry, [...(byExpiry.get(q.expiry) ?? []), q]);
+  }
+  const points: TermPoint[] = [];
+  for (const [expiry, group] of byExpiry) {
+    const atmIv = atmImpliedVol(group);
+    if (atmIv === null) continue;
+    points.push({
+      expiry,
+      t: (expiry - now) / MS_PER_YEAR,
+      atmIv,
+      forward: group.reduce((sum, q) => sum + q.forward, 0) / group.length,
+    });
+  }
+  return points.sort((a, b) => a.expiry - b.expiry);
+}
+
+/**
+ * Implied vol at horizon t (years), linear in total variance w = σ²t between the
+ * bracketing expiries and flat in vol outside them. The later variance is floored at
+ * the earlier one so a calendar-arbitraged pair can't imply negative forward variance.
+ */
+export function interpolateTermVol(points: TermPoint[], t: number): TermVolEstimate | null {
+  if (points.length === 0 || !(t > 0)) return null;
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (t <= first.t) return { iv: first.atmIv, lower: null, upper: first };
+  if (t >= last.t) return { iv: last.atmIv, lower: last, upper: null };
+
+  const i = points.findIndex(p => p.t >= t);
+  const lower = points[i - 1];
+  const upper = points[i];
+  const wLower = lower.atmIv * lower.atmIv * lower.t;
+  const wUpper = Math.max(upper.atmIv * upper.atmIv * upper.t, wLower);
+  const w = wLower + (wUpper - wLower) * (t - lower.t) / (upper.t - lower.t);
+  return { iv: Math.sqrt(w / t), lower, upper };
+}
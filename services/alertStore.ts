@@ -0,0 +1,34 @@
+import { AlertEvent, AlertRule } from '../utils/alerts';
+
+// --- ALERT PERSISTENCE (localStorage) ---
+
+const RULES_KEY = 'etherquant.alertRules.v1';
+const LOG_KEY = 'etherquant.alertLog.v1';
+export const MAX_ALERT_LOG = 500;
+
+function load<T>(key: string): T[] {
+  try {
+    const raw = localStorage.getItem(key);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function save(key: string, items: unknown[]): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(items));
+  } catch {
+    // Quota exceeded or storage disabled: alerts still fire, they just won't survive a reload
+  }
+}
+
+export const loadAlertRules = () => load<AlertRule>(RULES_KEY);
+
+export const saveAlertRules = (rules: AlertRule[]) => save(RULES_KEY, rules);
+
+// Newest first
+export const loadAlertLog = () => load<AlertEvent>(LOG_KEY);
+
+export const saveAlertLog = (log: AlertEvent[]) => save(LOG_KEY, log.slice(0, MAX_ALERT_LOG));
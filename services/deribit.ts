@@ -0,0 +1,65 @@
+import { OptionQuote } from '../quant';
+import { parseExpiryCode } from '../utils/expiry';
+import { BookSummaryFixture, DERIBIT_OPTIONS_GENERATED_AT, DERIBIT_OPTIONS_FIXTURE } from './fixtures/deribitOptions';
+
+// --- DERIBIT PUBLIC API ---
+
+const DERIBIT_API = 'https://www.deribit.com/api/v2/public';
+
+// Deribit perpetuals settle funding every 8 hours
+const FUNDING_PERIODS_PER_YEAR = 3 * 365;
+
+async function deribitGet(method: string, params: Record<string, string>): Promise<any> {
+  const response = await fetch(`${DERIBIT_API}/${method}?${new URLSearchParams(params)}`);
+  if (!response.ok) throw new Error(`Deribit ${method} failed (${response.status})`);
+  const data = await response.json();
+  if (data.error) throw new Error(data.error.message ?? `Deribit ${method} failed`);
+  return data.result;
+}
+
+/**
+ * Current 8h funding rate of a perpetual, annualized (decimal). Longs pay shorts
+ * when it is positive, so it doubles as the market's price of carrying the spot.
+ */
+export async function fetchPerpFunding(instrument: string): Promise<number> {
+  const ticker = await deribitGet('ticker', { instrument_name: instrument });
+  const rate = Number(ticker.funding_8h);
+  if (!Number.isFinite(rate)) throw new Error(`No funding rate for ${instrument}`);
+  return rate * FUNDING_PERIODS_PER_YEAR;
+}
+
+/**
+ * Reads a book summary row for an option like "ETH-27DEC24-3000-C".
+ */
+function parseOptionSummary(row: BookSummaryFixture): OptionQuote | null {
+  const [, date, strike] = row.instrument_name.split('-');
+  const expiry = parseExpiryCode(date ?? '');
+  if (expiry === null) return null;
+  const quote = {
+    expiry,
+    strike: Number(strike),
+    iv: Number(row.mark_iv) / 100,
+    forward: Number(row.underlying_price),
+  };
+  return quote.strike > 0 && quote.iv > 0 && quote.forward > 0 ? quote : null;
+}
+
+/**
+ * Mark IVs of every listed option on a currency, for the ATM term structure.
+ */
+export async function fetchOptionQuotes(currency: string): Promise<OptionQuote[]> {
+  const summaries: BookSummaryFixture[] = await deribitGet('get_book_summary_by_currency', { currency, kind: 'option' });
+  return summaries.map(parseOptionSummary).filter((q): q is OptionQuote => q !== null);
+}
+
+/**
+ * Offline stand-in for fetchOptionQuotes, from the bundled generated rows. Expiries
+ * are shifted by the time since their generation date so the curve keeps its shape.
+ */
+export function fixtureOptionQuotes(currency: string, now: number): OptionQuote[] {
+  const shift = now - DERIBIT_OPTIONS_GENERATED_AT;
+  return (DERIBIT_OPTIONS_FIXTURE[currency] ?? [])
+    .map(parseOptionSummary)
+    .filter((q): q is OptionQuote => q !== null)
+    .map(q => ({ ...q, expiry: q.expiry + shift }));
+}
@@ -0,0 +1,284 @@
+import { ChartPoint, NotebookSection } from '../types';
+
+// --- EXPORTS (CSV, JSON, Markdown, PNG, PDF) ---
+
+export type ChartDataFormat = 'csv' | 'json';
+export type ReportFormat = 'png' | 'pdf';
+
+export interface NotebookDocument {
+  query: string;
+  result: [string, string];
+  variables: [string, string][];
+  sections: NotebookSection[];
+  generatedAt: number;
+}
+
+export interface ReportSummary {
+  title: string;    // e.g. "ETH/USDT · Binance"
+  headline: string; // e.g. "P(ETH above $3,100.00 in 60m)"
+  probability: number;
+  subline?: string;
+  params: [string, string][];
+  generatedAt: number;
+}
+
+/**
+ * Saves content as a file through a temporary download link.
+ */
+export function downloadFile(content: BlobPart, filename: string, type: string): void {
+  const url = URL.createObjectURL(content instanceof Blob ? content : new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// "etherquant-eth-chart-2026-01-31T12-00-00.csv"
+const exportFilename = (stem: string, ext: string, at: number) =>
+  `etherquant-${stem}-${new Date(at).toISOString().slice(0, 19).replace(/:/g, '-')}.${ext}`;
+
+// --- CHART DATA ---
+
+const CSV_COLUMNS = [
+  'timestamp', 'time', 'price', 'low', 'high', 'mean',
+  'sigma1_lower', 'sigma1_upper', 'sigma2_lower', 'sigma2_upper', 'sigma3_lower', 'sigma3_upper',
+];
+
+const csvValue = (v: number | undefined) => (v === undefined ? '' : String(v));
+
+/**
+ * One row per chart point: history rows carry price (and low/high for candles),
+ * projected rows carry the mean and the 1–3σ band edges.
+ */
+export function chartDataToCsv(points: ChartPoint[]): string {
+  const rows = points.map(p => [
+    String(p.timestamp),
+    new Date(p.timestamp).toISOString(),
+    csvValue(p.price),
+    csvValue(p.range?.[0]),
+    csvValue(p.range?.[1]),
+    csvValue(p.mean),
+    csvValue(p.sigma1?.[0]), csvValue(p.sigma1?.[1]),
+    csvValue(p.sigma2?.[0]), csvValue(p.sigma2?.[1]),
+    csvValue(p.sigma3?.[0]), csvValue(p.sigma3?.[1]),
+  ].join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Downloads the chart series; JSON also carries the parameters behind the projection.
+ */
+export function exportChartData(points: ChartPoint[], format: ChartDataFormat, stem: string, meta: Record<string, unknown>): void {
+  const generatedAt = Date.now();
+  if (format === 'csv') {
+    downloadFile(chartDataToCsv(points), exportFilename(`${stem}-chart`, 'csv', generatedAt), 'text/csv');
+    return;
+  }
+  const history = points.filter(p => p.price !== undefined).map(({ timestamp, price, range }) => ({ timestamp, price, range }));
+  const projection = points
+    .filter(p => p.price === undefined)
+    .map(({ timestamp, mean, sigma1, sigma2, sigma3 }) => ({ timestamp, mean, sigma1, sigma2, sigma3 }));
+  const body = JSON.stringify({ generatedAt: new Date(generatedAt).toISOString(), ...meta, history, projection }, null, 2);
+  downloadFile(body, exportFilename(`${stem}-chart`, 'json', generatedAt), 'application/json');
+}
+
+// --- NOTEBOOK ---
+
+const mdCell = (text: string) => text.replace(/\|/g, '\\|');
+
+export function notebookToMarkdown(doc: NotebookDocument): string {
+  const lines = [
+    '# Solution Notebook',
+    '',
+    `> ${doc.query}`,
+    '',
+    `**${doc.result[0]}:** ${doc.result[1]}`,
+    '',
+    `_Generated ${new Date(doc.generatedAt).toISOString()}_`,
+    '',
+    '## 1. Variables',
+    '',
+    '| Variable | Value |',
+    '| --- | --- |',
+    ...doc.variables.map(([name, value]) => `| ${mdCell(name)} | ${mdCell(value)} |`),
+  ];
+  for (const section of doc.sections) {
+    lines.push(
+      '',
+      `## ${section.title}`,
+      '',
+      '| Step | Formula | Result | Note |',
+      '| --- | --- | ---: | --- |',
+      ...section.steps.map(s => `| ${mdCell(s.label)} | \`${mdCell(s.formula)}\` | ${mdCell(s.result)} | ${mdCell(s.desc ?? '')} |`),
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function exportNotebook(doc: NotebookDocument, stem: string): void {
+  downloadFile(notebookToMarkdown(doc), exportFilename(`${stem}-notebook`, 'md', doc.generatedAt), 'text/markdown');
+}
+
+// --- REPORT ---
+
+const REPORT_WIDTH = 1200;
+const REPORT_SCALE = 2;  // Device pixels per layout pixel
+const PDF_PAGE_WIDTH = 842; // Points, A4 landscape width
+const MONO = 'ui-monospace, SFMono-Regular, Menlo, monospace';
+const SANS = 'ui-sans-serif, system-ui, sans-serif';
+
+const loadImage = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Could not render the chart'));
+  image.src = url;
+});
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the report'))), type, 0.92);
+});
+
+/**
+ * Rasterizes an inline SVG (the Recharts surface) at its on-screen size.
+ */
+async function rasterizeSvg(svg: SVGSVGElement): Promise<HTMLImageElement> {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(clone)], { type: 'image/svg+xml' }));
+  try {
+    return await loadImage(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Draws the report: header, headline probability, chart and parameter grid.
+ */
+async function renderReport(svg: SVGSVGElement, summary: ReportSummary): Promise<HTMLCanvasElement> {
+  const chart = await rasterizeSvg(svg);
+  const margin = 40;
+  const chartWidth = REPORT_WIDTH - 2 * margin;
+  const chartHeight = chart.height > 0 ? chartWidth * chart.height / chart.width : chartWidth * 0.4;
+  const paramColumns = 3;
+  const paramRows = Math.ceil(summary.params.length / paramColumns);
+  const chartTop = 200;
+  const paramsTop = chartTop + chartHeight + 36;
+  const height = paramsTop + paramRows * 48 + margin;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = REPORT_WIDTH * REPORT_SCALE;
+  canvas.height = height * REPORT_SCALE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is unavailable');
+  ctx.scale(REPORT_SCALE, REPORT_SCALE);
+
+  ctx.fillStyle = '#020617';
+  ctx.fillRect(0, 0, REPORT_WIDTH, height);
+
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillStyle = '#f8fafc';
+  ctx.font = `bold 26px ${SANS}`;
+  ctx.fillText('EtherGBM Report', margin, 58);
+  ctx.fillStyle = '#94a3b8';
+  ctx.font = `14px ${SANS}`;
+  ctx.fillText(summary.title, margin, 84);
+  ctx.textAlign = 'right';
+  ctx.font = `13px ${MONO}`;
+  ctx.fillText(new Date(summary.generatedAt).toLocaleString(), REPORT_WIDTH - margin, 58);
+  ctx.textAlign = 'left';
+
+  ctx.fillStyle = '#cbd5e1';
+  ctx.font = `16px ${MONO}`;
+  ctx.fillText(summary.headline, margin, 124);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `bold 44px ${MONO}`;
+  ctx.fillText(`${(summary.probability * 100).toFixed(2)}%`, margin, 170);
+  if (summary.subline) {
+    ctx.fillStyle = '#6ee7b7';
+    ctx.font = `14px ${MONO}`;
+    ctx.fillText(summary.subline, margin + 240, 168);
+  }
+
+  ctx.fillStyle = '#0f172a';
+  ctx.fillRect(margin, chartTop, chartWidth, chartHeight);
+  ctx.drawImage(chart, margin, chartTop, chartWidth, chartHeight);
+  ctx.strokeStyle = '#1e293b';
+  ctx.strokeRect(margin + 0.5, chartTop + 0.5, chartWidth - 1, chartHeight - 1);
+
+  const columnWidth = chartWidth / paramColumns;
+  summary.params.forEach(([label, value], i) => {
+    const x = margin + (i % paramColumns) * columnWidth;
+    const y = paramsTop + Math.floor(i / paramColumns) * 48;
+    ctx.fillStyle = '#64748b';
+    ctx.font = `bold 11px ${SANS}`;
+    ctx.fillText(label.toUpperCase(), x, y);
+    ctx.fillStyle = '#f1f5f9';
+    ctx.font = `15px ${MONO}`;
+    ctx.fillText(value, x, y + 22, columnWidth - 16);
+  });
+
+  return canvas;
+}
+
+/**
+ * Single-page PDF around one JPEG image (DCTDecode needs no re-encoding).
+ */
+function jpegToPdf(jpeg: Uint8Array, pixelWidth: number, pixelHeight: number): Blob {
+  const pageWidth = PDF_PAGE_WIDTH;
+  const pageHeight = Math.round(PDF_PAGE_WIDTH * pixelHeight / pixelWidth);
+  const encoder = new TextEncoder();
+  const drawImage = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+  const objects: (string | Uint8Array)[][] = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`],
+    [
+      `<< /Type /XObject /Subtype /Image /Width ${pixelWidth} /Height ${pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`,
+      jpeg,
+      '\nendstream',
+    ],
+    [`<< /Length ${drawImage.length} >>\nstream\n${drawImage}\nendstream`],
+  ];
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  write('%PDF-1.4\n');
+  const offsets = objects.map((parts, i) => {
+    const offset = length;
+    write(`${i + 1} 0 obj\n`);
+    parts.forEach(write);
+    write('\nendobj\n');
+    return offset;
+  });
+  const xref = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+}
+
+/**
+ * Downloads a one-page report of the chart, parameters and headline probability.
+ */
+export async function exportReport(svg: SVGSVGElement, summary: ReportSummary, format: ReportFormat, stem: string): Promise<void> {
+  const canvas = await renderReport(svg, summary);
+  const filename = exportFilename(`${stem}-report`, format, summary.generatedAt);
+  if (format === 'png') {
+    downloadFile(await canvasToBlob(canvas, 'image/png'), filename, 'image/png');
+    return;
+  }
+  const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg')).arrayBuffer());
+  downloadFile(jpegToPdf(jpeg, canvas.width, canvas.height), filename, 'application/pdf');
+}
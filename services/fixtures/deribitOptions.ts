@@ -0,0 +1,138 @@
+// Generated rows in the shape of public/get_book_summary_by_currency?kind=option (only the
+// fields the term structure reads). Not captured market data: the marks come from a smooth
+// synthetic smile and term structure, dated DERIBIT_OPTIONS_GENERATED_AT. Backs the offline stand-in.
+
+export interface BookSummaryFixture {
+  instrument_name: string;
+  mark_iv: number;
+  underlying_price: number;
+}
+
+export const DERIBIT_OPTIONS_GENERATED_AT = Date.UTC(2026, 9, 19, 12, 0);
+
+export const DERIBIT_OPTIONS_FIXTURE: Record<string, BookSummaryFixture[]> = {
+  BTC: [
+    { instrument_name: 'BTC-20OCT26-58000-C', mark_iv: 45.04, underlying_price: 60008.22 },
+    { instrument_name: 'BTC-20OCT26-58000-P', mark_iv: 45.04, underlying_price: 60008.22 },
+    { instrument_name: 'BTC-20OCT26-59000-C', mark_iv: 44.31, underlying_price: 60008.22 },
+    { instrument_name: 'BTC-20OCT26-59000-P', mark_iv: 44.31, underlying_price: 60008.22 },
+    { instrument_name: 'BTC-20OCT26-60000-C', mark_iv: 44.0, underlying_price: 60008.22 },
+    { instrument_name: 'BTC-20OCT26-60000-P', mark_iv: 44.0, underlying_price: 60008.22 },
+    { instrument_name: 'BTC-20OCT26-61000-C', mark_iv: 44.1, underlying_price: 60008.22 },
+    { instrument_name: 'BTC-20OCT26-61000-P', mark_iv: 44.1, underlying_price: 60008.22 },
+    { instrument_name: 'BTC-20OCT26-62000-C', mark_iv: 44.57, underlying_price: 60008.22 },
+    { instrument_name: 'BTC-20OCT26-62000-P', mark_iv: 44.57, underlying_price: 60008.22 },
+    { instrument_name: 'BTC-21OCT26-58000-C', mark_iv: 46.08, underlying_price: 60018.08 },
+    { instrument_name: 'BTC-21OCT26-58000-P', mark_iv: 46.08, underlying_price: 60018.08 },
+    { instrument_name: 'BTC-21OCT26-59000-C', mark_iv: 45.47, underlying_price: 60018.08 },
+    { instrument_name: 'BTC-21OCT26-59000-P', mark_iv: 45.47, underlying_price: 60018.08 },
+    { instrument_name: 'BTC-21OCT26-60000-C', mark_iv: 45.2, underlying_price: 60018.08 },
+    { instrument_name: 'BTC-21OCT26-60000-P', mark_iv: 45.2, underlying_price: 60018.08 },
+    { instrument_name: 'BTC-21OCT26-61000-C', mark_iv: 45.25, underlying_price: 60018.08 },
+    { instrument_name: 'BTC-21OCT26-61000-P', mark_iv: 45.25, underlying_price: 60018.08 },
+    { instrument_name: 'BTC-21OCT26-62000-C', mark_iv: 45.61, underlying_price: 60018.08 },
+    { instrument_name: 'BTC-21OCT26-62000-P', mark_iv: 45.61, underlying_price: 60018.08 },
+    { instrument_name: 'BTC-23OCT26-56000-C', mark_iv: 48.9, underlying_price: 60037.82 },
+    { instrument_name: 'BTC-23OCT26-56000-P', mark_iv: 48.9, underlying_price: 60037.82 },
+    { instrument_name: 'BTC-23OCT26-58000-C', mark_iv: 47.19, underlying_price: 60037.82 },
+    { instrument_name: 'BTC-23OCT26-58000-P', mark_iv: 47.19, underlying_price: 60037.82 },
+    { instrument_name: 'BTC-23OCT26-60000-C', mark_iv: 46.5, underlying_price: 60037.82 },
+    { instrument_name: 'BTC-23OCT26-60000-P', mark_iv: 46.5, underlying_price: 60037.82 },
+    { instrument_name: 'BTC-23OCT26-62000-C', mark_iv: 46.73, underlying_price: 60037.82 },
+    { instrument_name: 'BTC-23OCT26-62000-P', mark_iv: 46.73, underlying_price: 60037.82 },
+    { instrument_name: 'BTC-23OCT26-64000-C', mark_iv: 47.78, underlying_price: 60037.82 },
+    { instrument_name: 'BTC-23OCT26-64000-P', mark_iv: 47.78, underlying_price: 60037.82 },
+    { instrument_name: 'BTC-30OCT26-56000-C', mark_iv: 49.78, underlying_price: 60106.94 },
+    { instrument_name: 'BTC-30OCT26-56000-P', mark_iv: 49.78, underlying_price: 60106.94 },
+    { instrument_name: 'BTC-30OCT26-58000-C', mark_iv: 48.63, underlying_price: 60106.94 },
+    { instrument_name: 'BTC-30OCT26-58000-P', mark_iv: 48.63, underlying_price: 60106.94 },
+    { instrument_name: 'BTC-30OCT26-60000-C', mark_iv: 48.11, underlying_price: 60106.94 },
+    { instrument_name: 'BTC-30OCT26-60000-P', mark_iv: 48.11, underlying_price: 60106.94 },
+    { instrument_name: 'BTC-30OCT26-62000-C', mark_iv: 48.16, underlying_price: 60106.94 },
+    { instrument_name: 'BTC-30OCT26-62000-P', mark_iv: 48.16, underlying_price: 60106.94 },
+    { instrument_name: 'BTC-30OCT26-64000-C', mark_iv: 48.71, underlying_price: 60106.94 },
+    { instrument_name: 'BTC-30OCT26-64000-P', mark_iv: 48.71, underlying_price: 60106.94 },
+    { instrument_name: 'BTC-27NOV26-52000-C', mark_iv: 54.3, underlying_price: 60384.24 },
+    { instrument_name: 'BTC-27NOV26-52000-P', mark_iv: 54.3, underlying_price: 60384.24 },
+    { instrument_name: 'BTC-27NOV26-56000-C', mark_iv: 51.54, underlying_price: 60384.24 },
+    { instrument_name: 'BTC-27NOV26-56000-P', mark_iv: 51.54, underlying_price: 60384.24 },
+    { instrument_name: 'BTC-27NOV26-60000-C', mark_iv: 50.34, underlying_price: 60384.24 },
+    { instrument_name: 'BTC-27NOV26-60000-P', mark_iv: 50.34, underlying_price: 60384.24 },
+    { instrument_name: 'BTC-27NOV26-64000-C', mark_iv: 50.42, underlying_price: 60384.24 },
+    { instrument_name: 'BTC-27NOV26-64000-P', mark_iv: 50.42, underlying_price: 60384.24 },
+    { instrument_name: 'BTC-27NOV26-68000-C', mark_iv: 51.55, underlying_price: 60384.24 },
+    { instrument_name: 'BTC-27NOV26-68000-P', mark_iv: 51.55, underlying_price: 60384.24 },
+    { instrument_name: 'BTC-25DEC26-50000-C', mark_iv: 57.25, underlying_price: 60662.81 },
+    { instrument_name: 'BTC-25DEC26-50000-P', mark_iv: 57.25, underlying_price: 60662.81 },
+    { instrument_name: 'BTC-25DEC26-55000-C', mark_iv: 53.64, underlying_price: 60662.81 },
+    { instrument_name: 'BTC-25DEC26-55000-P', mark_iv: 53.64, underlying_price: 60662.81 },
+    { instrument_name: 'BTC-25DEC26-60000-C', mark_iv: 52.08, underlying_price: 60662.81 },
+    { instrument_name: 'BTC-25DEC26-60000-P', mark_iv: 52.08, underlying_price: 60662.81 },
+    { instrument_name: 'BTC-25DEC26-65000-C', mark_iv: 52.11, underlying_price: 60662.81 },
+    { instrument_name: 'BTC-25DEC26-65000-P', mark_iv: 52.11, underlying_price: 60662.81 },
+    { instrument_name: 'BTC-25DEC26-70000-C', mark_iv: 53.38, underlying_price: 60662.81 },
+    { instrument_name: 'BTC-25DEC26-70000-P', mark_iv: 53.38, underlying_price: 60662.81 },
+  ],
+  ETH: [
+    { instrument_name: 'ETH-20OCT26-2900-C', mark_iv: 53.7, underlying_price: 3000.41 },
+    { instrument_name: 'ETH-20OCT26-2900-P', mark_iv: 53.7, underlying_price: 3000.41 },
+    { instrument_name: 'ETH-20OCT26-2950-C', mark_iv: 52.85, underlying_price: 3000.41 },
+    { instrument_name: 'ETH-20OCT26-2950-P', mark_iv: 52.85, underlying_price: 3000.41 },
+    { instrument_name: 'ETH-20OCT26-3000-C', mark_iv: 52.5, underlying_price: 3000.41 },
+    { instrument_name: 'ETH-20OCT26-3000-P', mark_iv: 52.5, underlying_price: 3000.41 },
+    { instrument_name: 'ETH-20OCT26-3050-C', mark_iv: 52.63, underlying_price: 3000.41 },
+    { instrument_name: 'ETH-20OCT26-3050-P', mark_iv: 52.63, underlying_price: 3000.41 },
+    { instrument_name: 'ETH-20OCT26-3100-C', mark_iv: 53.22, underlying_price: 3000.41 },
+    { instrument_name: 'ETH-20OCT26-3100-P', mark_iv: 53.22, underlying_price: 3000.41 },
+    { instrument_name: 'ETH-21OCT26-2900-C', mark_iv: 54.4, underlying_price: 3000.9 },
+    { instrument_name: 'ETH-21OCT26-2900-P', mark_iv: 54.4, underlying_price: 3000.9 },
+    { instrument_name: 'ETH-21OCT26-2950-C', mark_iv: 53.7, underlying_price: 3000.9 },
+    { instrument_name: 'ETH-21OCT26-2950-P', mark_iv: 53.7, underlying_price: 3000.9 },
+    { instrument_name: 'ETH-21OCT26-3000-C', mark_iv: 53.4, underlying_price: 3000.9 },
+    { instrument_name: 'ETH-21OCT26-3000-P', mark_iv: 53.4, underlying_price: 3000.9 },
+    { instrument_name: 'ETH-21OCT26-3050-C', mark_iv: 53.48, underlying_price: 3000.9 },
+    { instrument_name: 'ETH-21OCT26-3050-P', mark_iv: 53.48, underlying_price: 3000.9 },
+    { instrument_name: 'ETH-21OCT26-3100-C', mark_iv: 53.92, underlying_price: 3000.9 },
+    { instrument_name: 'ETH-21OCT26-3100-P', mark_iv: 53.92, underlying_price: 3000.9 },
+    { instrument_name: 'ETH-23OCT26-2800-C', mark_iv: 57.76, underlying_price: 3001.89 },
+    { instrument_name: 'ETH-23OCT26-2800-P', mark_iv: 57.76, underlying_price: 3001.89 },
+    { instrument_name: 'ETH-23OCT26-2900-C', mark_iv: 55.78, underlying_price: 3001.89 },
+    { instrument_name: 'ETH-23OCT26-2900-P', mark_iv: 55.78, underlying_price: 3001.89 },
+    { instrument_name: 'ETH-23OCT26-3000-C', mark_iv: 55.0, underlying_price: 3001.89 },
+    { instrument_name: 'ETH-23OCT26-3000-P', mark_iv: 55.0, underlying_price: 3001.89 },
+    { instrument_name: 'ETH-23OCT26-3100-C', mark_iv: 55.31, underlying_price: 3001.89 },
+    { instrument_name: 'ETH-23OCT26-3100-P', mark_iv: 55.31, underlying_price: 3001.89 },
+    { instrument_name: 'ETH-23OCT26-3200-C', mark_iv: 56.59, underlying_price: 3001.89 },
+    { instrument_name: 'ETH-23OCT26-3200-P', mark_iv: 56.59, underlying_price: 3001.89 },
+    { instrument_name: 'ETH-30OCT26-2800-C', mark_iv: 59.12, underlying_price: 3005.35 },
+    { instrument_name: 'ETH-30OCT26-2800-P', mark_iv: 59.12, underlying_price: 3005.35 },
+    { instrument_name: 'ETH-30OCT26-2900-C', mark_iv: 57.79, underlying_price: 3005.35 },
+    { instrument_name: 'ETH-30OCT26-2900-P', mark_iv: 57.79, underlying_price: 3005.35 },
+    { instrument_name: 'ETH-30OCT26-3000-C', mark_iv: 57.21, underlying_price: 3005.35 },
+    { instrument_name: 'ETH-30OCT26-3000-P', mark_iv: 57.21, underlying_price: 3005.35 },
+    { instrument_name: 'ETH-30OCT26-3100-C', mark_iv: 57.3, underlying_price: 3005.35 },
+    { instrument_name: 'ETH-30OCT26-3100-P', mark_iv: 57.3, underlying_price: 3005.35 },
+    { instrument_name: 'ETH-30OCT26-3200-C', mark_iv: 58.0, underlying_price: 3005.35 },
+    { instrument_name: 'ETH-30OCT26-3200-P', mark_iv: 58.0, underlying_price: 3005.35 },
+    { instrument_name: 'ETH-27NOV26-2600-C', mark_iv: 64.7, underlying_price: 3019.21 },
+    { instrument_name: 'ETH-27NOV26-2600-P', mark_iv: 64.7, underlying_price: 3019.21 },
+    { instrument_name: 'ETH-27NOV26-2800-C', mark_iv: 61.49, underlying_price: 3019.21 },
+    { instrument_name: 'ETH-27NOV26-2800-P', mark_iv: 61.49, underlying_price: 3019.21 },
+    { instrument_name: 'ETH-27NOV26-3000-C', mark_iv: 60.15, underlying_price: 3019.21 },
+    { instrument_name: 'ETH-27NOV26-3000-P', mark_iv: 60.15, underlying_price: 3019.21 },
+    { instrument_name: 'ETH-27NOV26-3200-C', mark_iv: 60.31, underlying_price: 3019.21 },
+    { instrument_name: 'ETH-27NOV26-3200-P', mark_iv: 60.31, underlying_price: 3019.21 },
+    { instrument_name: 'ETH-27NOV26-3400-C', mark_iv: 61.73, underlying_price: 3019.21 },
+    { instrument_name: 'ETH-27NOV26-3400-P', mark_iv: 61.73, underlying_price: 3019.21 },
+    { instrument_name: 'ETH-25DEC26-2500-C', mark_iv: 68.46, underlying_price: 3033.14 },
+    { instrument_name: 'ETH-25DEC26-2500-P', mark_iv: 68.46, underlying_price: 3033.14 },
+    { instrument_name: 'ETH-25DEC26-2750-C', mark_iv: 64.25, underlying_price: 3033.14 },
+    { instrument_name: 'ETH-25DEC26-2750-P', mark_iv: 64.25, underlying_price: 3033.14 },
+    { instrument_name: 'ETH-25DEC26-3000-C', mark_iv: 62.48, underlying_price: 3033.14 },
+    { instrument_name: 'ETH-25DEC26-3000-P', mark_iv: 62.48, underlying_price: 3033.14 },
+    { instrument_name: 'ETH-25DEC26-3250-C', mark_iv: 62.61, underlying_price: 3033.14 },
+    { instrument_name: 'ETH-25DEC26-3250-P', mark_iv: 62.61, underlying_price: 3033.14 },
+    { instrument_name: 'ETH-25DEC26-3500-C', mark_iv: 64.23, underlying_price: 3033.14 },
+    { instrument_name: 'ETH-25DEC26-3500-P', mark_iv: 64.23, underlying_price: 3033.14 },
+  ],
+};
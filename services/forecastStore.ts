@@ -0,0 +1,24 @@
+import { Forecast } from '../utils/calibration';
+
+// --- FORECAST PERSISTENCE (localStorage) ---
+
+const STORAGE_KEY = 'etherquant.forecasts.v1';
+const MAX_FORECASTS = 2000;
+
+export function loadForecasts(): Forecast[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveForecasts(forecasts: Forecast[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(forecasts.slice(-MAX_FORECASTS)));
+  } catch {
+    // Quota exceeded or storage disabled: calibration simply won't survive a reload
+  }
+}
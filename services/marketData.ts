@@ -0,0 +1,338 @@
+import { HistoryPoint } from '../types';
+import { createRng, createNormalSampler } from '../utils/monteCarlo';
+
+// --- MARKET DATA PROVIDERS ---
+// Every venue is reduced to the same shape: a stream of HistoryPoint ticks
+// plus open/close notifications. The dashboard never sees raw venue payloads.
+
+export type ProviderId = 'binance' | 'coinbase' | 'kraken' | 'mock';
+
+// Live venues plus playback of a recorded file (services/replay.ts)
+export type FeedId = ProviderId | 'replay';
+
+export type AssetId = 'BTC' | 'ETH' | 'SOL';
+
+export interface AssetConfig {
+  id: AssetId;
+  name: string;
+  dvolIndex: string | null;       // Deribit DVOL index, null where none is published
+  perpInstrument: string;         // Deribit perpetual, for the funding rate
+  optionsCurrency: string | null; // Deribit options currency, for the IV term structure
+  priceDecimals: number;          // Rounding for default targets
+  mockPrice: number;              // Starting price for the synthetic feed
+}
+
+export const ASSETS: Record<AssetId, AssetConfig> = {
+  BTC: { id: 'BTC', name: 'Bitcoin', dvolIndex: 'btc_dvol', perpInstrument: 'BTC-PERPETUAL', optionsCurrency: 'BTC', priceDecimals: 0, mockPrice: 60000 },
+  ETH: { id: 'ETH', name: 'Ethereum', dvolIndex: 'eth_dvol', perpInstrument: 'ETH-PERPETUAL', optionsCurrency: 'ETH', priceDecimals: 0, mockPrice: 3000 },
+  SOL: { id: 'SOL', name: 'Solana', dvolIndex: null, perpInstrument: 'SOL_USDC-PERPETUAL', optionsCurrency: null, priceDecimals: 2, mockPrice: 150 },
+};
+
+export interface FeedHandlers {
+  onTick: (tick: HistoryPoint) => void;
+  onOpen: () => void;
+  onClose: () => void;
+  // Trades recovered over REST for the window the socket was down
+  onBackfill?: (ticks: HistoryPoint[]) => void;
+  onReconnecting?: (attempt: number, delayMs: number) => void;
+  // Replaces the buffer outright, e.g. after seeking a replay
+  onReset?: (ticks: HistoryPoint[]) => void;
+}
+
+export interface MarketDataProvider {
+  id: FeedId;
+  label: string;
+  pair: (asset: AssetId) => string;
+  // Starts streaming the asset's trades and returns a disconnect function
+  connect: (asset: AssetId, handlers: FeedHandlers) => () => void;
+  // Last trade at or before `timestamp` from the venue's REST history, where it keeps one
+  tradeAt?: (asset: AssetId, timestamp: number) => Promise<HistoryPoint | null>;
+}
+
+type Trade = Omit<HistoryPoint, 'timestamp'>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isList = (value: unknown): value is unknown[] => Array.isArray(value);
+
+// REST payloads quote numbers as strings or numbers; anything else is NaN and filtered out
+const toNumber = (value: unknown) => (typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN);
+
+interface SocketConfig {
+  id: ProviderId;
+  label: string;
+  pair: (asset: AssetId) => string;
+  url: (asset: AssetId) => string;
+  subscribe?: (asset: AssetId) => object;
+  // Extracts zero or more trades from a decoded message of unknown shape
+  parse: (message: unknown) => Trade[];
+  // REST lookup of trades in (since, until], used to fill gaps after a reconnect
+  backfill?: (asset: AssetId, since: number, until: number) => Promise<HistoryPoint[]>;
+}
+
+// How far before a timestamp tradeAt looks for the trade in force at it
+const TRADE_LOOKUP_WINDOW_MS = 60 * 1000;
+
+// Reconnect backoff: 1s, 2s, 4s ... capped at 30s, with jitter
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+/**
+ * Builds a provider around a single WebSocket trade stream.
+ * Unexpected closes are retried with exponential backoff, and once the socket
+ * is back the venue's REST endpoint is asked for whatever traded in between.
+ */
+function socketProvider(config: SocketConfig): MarketDataProvider {
+  const { backfill } = config;
+  return {
+    id: config.id,
+    label: config.label,
+    pair: config.pair,
+    tradeAt: backfill && (async (asset, timestamp) => {
+      const ticks = await backfill(asset, timestamp - TRADE_LOOKUP_WINDOW_MS, timestamp);
+      return ticks[ticks.length - 1] ?? null;
+    }),
+    connect: (asset, { onTick, onOpen, onClose, onBackfill, onReconnecting }) => {
+      let ws: WebSocket | null = null;
+      let attempt = 0;
+      let hasConnected = false;
+      let closedByUser = false;
+      let lastTickAt: number | null = null;
+      let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const open = () => {
+        const socket = new WebSocket(config.url(asset));
+        ws = socket;
+
+        socket.onopen = () => {
+          if (config.subscribe) socket.send(JSON.stringify(config.subscribe(asset)));
+          attempt = 0;
+          onOpen();
+
+          if (hasConnected && lastTickAt !== null && config.backfill && onBackfill) {
+            const since = lastTickAt;
+            config.backfill(asset, since, Date.now())
+              .then(ticks => {
+                if (!closedByUser && ticks.length > 0) onBackfill(ticks);
+              })
+              .catch(() => {
+                // Backfill is best-effort; the live stream carries on regardless
+              });
+          }
+          hasConnected = true;
+        };
+
+        socket.onclose = () => {
+          onClose();
+          if (closedByUser) return;
+
+          const backoff = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+          const delay = Math.round(backoff * (0.5 + Math.random() * 0.5));
+          attempt++;
+          onReconnecting?.(attempt, delay);
+          retryTimer = setTimeout(open, delay);
+        };
+
+        socket.onmessage = (event) => {
+          let message: unknown;
+          try {
+            message = JSON.parse(event.data);
+          } catch {
+            return; // Not JSON (e.g. a heartbeat frame); skip it
+          }
+          const trades = config.parse(message);
+          const now = Date.now();
+          trades.forEach(({ price, volume }) => {
+            if (Number.isFinite(price) && price > 0) {
+              lastTickAt = now;
+              onTick({ timestamp: now, price, volume: Number.isFinite(volume) ? volume : undefined });
+            }
+          });
+        };
+      };
+
+      open();
+
+      return () => {
+        closedByUser = true;
+        clearTimeout(retryTimer);
+        if (ws) {
+          ws.onclose = null;
+          ws.close();
+        }
+        onClose();
+      };
+    },
+  };
+}
+
+// Above this gap, Binance trades are too dense to page through; use 1m klines instead
+const KLINE_BACKFILL_THRESHOLD_MS = 5 * 60 * 1000;
+
+// REST pages are 1000 trades; a gap needing more than this many is cut short
+const MAX_BACKFILL_PAGES = 20;
+const TRADES_PAGE = 1000;
+
+const fetchJson = async (url: string): Promise<unknown> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Backfill request failed (${response.status})`);
+  return response.json();
+};
+
+// Rows of a JSON array response that have the expected shape
+const fetchRecords = async (url: string) => {
+  const data = await fetchJson(url);
+  return isList(data) ? data.filter(isRecord) : [];
+};
+
+const inWindow = (since: number, until: number) => (tick: HistoryPoint) =>
+  tick.timestamp > since && tick.timestamp <= until && Number.isFinite(tick.price);
+
+const binance = socketProvider({
+  id: 'binance',
+  label: 'Binance',
+  pair: (asset) => `${asset} / USDT`,
+  url: (asset) => `wss://stream.binance.com:9443/ws/${asset.toLowerCase()}usdt@trade`,
+  parse: (data) => (isRecord(data) && data.e === 'trade' ? [{ price: Number(data.p), volume: Number(data.q) }] : []),
+  backfill: async (asset, since, until) => {
+    const symbol = `${asset}USDT`;
+    if (until - since > KLINE_BACKFILL_THRESHOLD_MS) {
+      const klines = await fetchJson(
+        `https://api.binance.com/api/v3/klines?symbol=${symbol}&interval=1m&startTime=${since}&endTime=${until}&limit=1000`
+      );
+      // [openTime, open, high, low, close, volume, closeTime, ...]
+      return (isList(klines) ? klines.filter(isList) : [])
+        .map(k => ({ timestamp: Math.min(toNumber(k[6]), until), price: toNumber(k[4]), volume: toNumber(k[5]) }))
+        .filter(inWindow(since, until));
+    }
+    // A time window returns its oldest 1000 trades; page on by trade id up to `until`
+    const base = `https://api.binance.com/api/v3/aggTrades?symbol=${symbol}&limit=${TRADES_PAGE}`;
+    const trades: Record<string, unknown>[] = [];
+    let page = await fetchRecords(`${base}&startTime=${since + 1}&endTime=${until}`);
+    for (let i = 1; ; i++) {
+      trades.push(...page);
+      const last = page[page.length - 1];
+      const lastId = last ? toNumber(last.a) : NaN;
+      if (page.length < TRADES_PAGE || !Number.isFinite(lastId) || toNumber(last.T) >= until || i >= MAX_BACKFILL_PAGES) break;
+      page = await fetchRecords(`${base}&fromId=${lastId + 1}`);
+    }
+    return trades
+      .map(t => ({ timestamp: toNumber(t.T), price: toNumber(t.p), volume: toNumber(t.q) }))
+      .filter(inWindow(since, until));
+  },
+});
+
+const coinbase = socketProvider({
+  id: 'coinbase',
+  label: 'Coinbase',
+  pair: (asset) => `${asset} / USD`,
+  url: () => 'wss://ws-feed.exchange.coinbase.com',
+  subscribe: (asset) => ({ type: 'subscribe', product_ids: [`${asset}-USD`], channels: ['matches'] }),
+  parse: (data) =>
+    isRecord(data) && (data.type === 'match' || data.type === 'last_match') ? [{ price: Number(data.price), volume: Number(data.size) }] : [],
+  backfill: async (asset, since, until) => {
+    // Newest first; `after` pages back to older trade ids until the window start is reached
+    const base = `https://api.exchange.coinbase.com/products/${asset}-USD/trades?limit=${TRADES_PAGE}`;
+    const trades: Record<string, unknown>[] = [];
+    let page = await fetchRecords(base);
+    for (let i = 1; ; i++) {
+      trades.push(...page);
+      const oldest = page[page.length - 1];
+      const oldestId = oldest ? toNumber(oldest.trade_id) : NaN;
+      if (page.length < TRADES_PAGE || !Number.isFinite(oldestId) || Date.parse(String(oldest.time)) <= since || i >= MAX_BACKFILL_PAGES) break;
+      page = await fetchRecords(`${base}&after=${oldestId}`);
+    }
+    return trades
+      .map(t => ({ timestamp: Date.parse(String(t.time)), price: toNumber(t.price), volume: toNumber(t.size) }))
+      .filter(inWindow(since, until))
+      .reverse();
+  },
+});
+
+const kraken = socketProvider({
+  id: 'kraken',
+  label: 'Kraken',
+  pair: (asset) => `${asset} / USD`,
+  url: () => 'wss://ws.kraken.com/v2',
+  subscribe: (asset) => ({ method: 'subscribe', params: { channel: 'trade', symbol: [`${asset}/USD`] } }),
+  parse: (data) =>
+    isRecord(data) && data.channel === 'trade' && Array.isArray(data.data)
+      ? data.data.filter(isRecord).map(t => ({ price: Number(t.price), volume: Number(t.qty) }))
+      : [],
+  backfill: async (asset, since, until) => {
+    // The REST API still uses the legacy XBT code for bitcoin
+    const pair = `${asset === 'BTC' ? 'XBT' : asset}USD`;
+    // A page holds up to 1000 trades from `since`; its `last` cursor is where the next one starts
+    const base = `https://api.kraken.com/0/public/Trades?pair=${pair}&count=${TRADES_PAGE}`;
+    const trades: unknown[][] = [];
+    let cursor = String(Math.floor(since / 1000));
+    for (let i = 1; ; i++) {
+      const data = await fetchJson(`${base}&since=${cursor}`);
+      if (!isRecord(data)) throw new Error('Unexpected Kraken response');
+      if (isList(data.error) && data.error.length > 0) throw new Error(data.error.join(', '));
+      // result = { [pairKey]: [[price, volume, time(s), ...]], last }
+      const result = isRecord(data.result) ? data.result : {};
+      const key = Object.keys(result).find(k => k !== 'last');
+      const rows = key ? result[key] : [];
+      const page = isList(rows) ? rows.filter(isList) : [];
+      trades.push(...page);
+      const newest = page[page.length - 1];
+      const next = typeof result.last === 'string' || typeof result.last === 'number' ? String(result.last) : null;
+      if (page.length < TRADES_PAGE || !newest || toNumber(newest[2]) * 1000 >= until || !next || next === cursor || i >= MAX_BACKFILL_PAGES) break;
+      cursor = next;
+    }
+    return trades
+      .map(t => ({ timestamp: Math.round(toNumber(t[2]) * 1000), price: toNumber(t[0]), volume: toNumber(t[1]) }))
+      .filter(inWindow(since, until));
+  },
+});
+
+/**
+ * Local stand-in feed. When MARKET_DATA_URL is set it connects to that socket and
+ * expects `{ "price": number, "qty"?: number, "symbol"?: AssetId }` messages (e.g. a fixture server
+ * in CI); otherwise it synthesises seeded GBM ticks in-process so the dashboard
+ * runs fully offline.
+ */
+const mock: MarketDataProvider = {
+  id: 'mock',
+  label: 'Mock',
+  pair: (asset) => `${asset} / USD (SIM)`,
+  connect: (asset, handlers) => {
+    const url = process.env.MARKET_DATA_URL;
+    if (url) {
+      return socketProvider({
+        id: 'mock',
+        label: mock.label,
+        pair: mock.pair,
+        url: () => url,
+        parse: (data) =>
+          isRecord(data) && (data.symbol === undefined || data.symbol === asset) ? [{ price: Number(data.price), volume: Number(data.qty) }] : [],
+      }).connect(asset, handlers);
+    }
+
+    const normal = createNormalSampler(createRng(1337 + asset.charCodeAt(0)));
+    const intervalMs = 250;
+    const dt = intervalMs / (365 * 24 * 60 * 60 * 1000);
+    const sigma = 0.6;
+    let price = ASSETS[asset].mockPrice;
+
+    handlers.onOpen();
+    const timer = setInterval(() => {
+      price *= Math.exp(-0.5 * sigma * sigma * dt + sigma * Math.sqrt(dt) * normal());
+      handlers.onTick({ timestamp: Date.now(), price });
+    }, intervalMs);
+
+    return () => {
+      clearInterval(timer);
+      handlers.onClose();
+    };
+  },
+};
+
+export const MARKET_DATA_PROVIDERS: Record<ProviderId, MarketDataProvider> = {
+  binance,
+  coinbase,
+  kraken,
+  mock,
+};
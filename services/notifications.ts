@@ -0,0 +1,45 @@
+import { AlertEvent } from '../utils/alerts';
+
+// --- ALERT DELIVERY ---
+
+export const notificationsSupported = () => typeof Notification !== 'undefined';
+
+export async function requestNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+  if (!notificationsSupported()) return 'unsupported';
+  return Notification.requestPermission();
+}
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Two short sine beeps, synthesised so no audio asset has to ship.
+ */
+function playChime(): void {
+  try {
+    audioContext ??= new AudioContext();
+    const ctx = audioContext;
+    [0, 0.18].forEach((offset, i) => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      const start = ctx.currentTime + offset;
+      osc.frequency.value = i === 0 ? 880 : 1320;
+      gain.gain.setValueAtTime(0.2, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.15);
+      osc.connect(gain).connect(ctx.destination);
+      osc.start(start);
+      osc.stop(start + 0.15);
+    });
+  } catch {
+    // Autoplay policy or no audio device
+  }
+}
+
+/**
+ * Shows a browser notification (when permitted) and optionally plays the chime.
+ */
+export function deliverAlert(event: AlertEvent, withSound: boolean): void {
+  if (notificationsSupported() && Notification.permission === 'granted') {
+    new Notification(`EtherQuant · ${event.asset}`, { body: event.message, tag: event.ruleId });
+  }
+  if (withSound) playChime();
+}
@@ -0,0 +1,24 @@
+import { PinnedForecast } from '../utils/pins';
+
+// --- PINNED FORECAST PERSISTENCE (localStorage) ---
+
+const STORAGE_KEY = 'etherquant.pins.v1';
+export const MAX_PINS = 50;
+
+export function loadPins(): PinnedForecast[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePins(pins: PinnedForecast[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(pins.slice(-MAX_PINS)));
+  } catch {
+    // Quota exceeded or storage disabled: pins last until the tab closes
+  }
+}
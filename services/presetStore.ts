@@ -0,0 +1,73 @@
+import { Scenario, sanitizeScenario } from '../utils/scenario';
+import { downloadFile } from './exports';
+
+// --- SCENARIO PRESETS (localStorage, JSON files) ---
+
+export interface Preset {
+  id: string;
+  name: string;
+  createdAt: number;
+  scenario: Partial<Scenario>;
+}
+
+const STORAGE_KEY = 'etherquant.presets.v1';
+const FILE_VERSION = 1;
+
+/**
+ * Validates untrusted preset records, dropping malformed ones and unknown fields.
+ */
+function sanitizePresets(raw: unknown): Preset[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(p => p && typeof p === 'object' && typeof p.name === 'string' && p.name.trim() !== '')
+    .map(p => ({
+      id: typeof p.id === 'string' ? p.id : `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: p.name.trim(),
+      createdAt: Number.isFinite(p.createdAt) ? p.createdAt : Date.now(),
+      scenario: sanitizeScenario(p.scenario),
+    }));
+}
+
+export function loadPresets(): Preset[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? sanitizePresets(JSON.parse(raw)) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePresets(presets: Preset[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch {
+    // Quota exceeded or storage disabled: presets last until the tab closes
+  }
+}
+
+/**
+ * Downloads the presets as a JSON file.
+ */
+export function exportPresets(presets: Preset[]): void {
+  downloadFile(
+    JSON.stringify({ version: FILE_VERSION, presets }, null, 2),
+    `etherquant-presets-${new Date().toISOString().slice(0, 10)}.json`,
+    'application/json'
+  );
+}
+
+/**
+ * Parses an exported presets file (or a bare array of presets).
+ */
+export function parsePresetFile(text: string): Preset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a valid JSON file');
+  }
+  const list = Array.isArray(data) ? data : (data as { presets?: unknown })?.presets;
+  const presets = sanitizePresets(list);
+  if (presets.length === 0) throw new Error('No presets found in file');
+  return presets;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryPoint } from '../types';
+import { createReplaySession, formatTickFile, parseTickFile } from './replay';
+
+const ticks = [
+  { timestamp: 1735689600000, price: 3350.25, volume: 0.5 },
+  { timestamp: 1735689600250, price: 3350.5, volume: undefined },
+  { timestamp: 1735689601000, price: 3349.75, volume: 1.25 },
+];
+
+describe('tick files', () => {
+  it.each(['csv', 'jsonl'] as const)('round-trips %s', (format) => {
+    expect(parseTickFile(formatTickFile(ticks, format))).toEqual(ticks);
+  });
+
+  it('reads headerless CSV in epoch seconds and sorts by time', () => {
+    expect(parseTickFile('1735689601,3349.75,1\n1735689600,3350.25,0.5\n').map(t => t.timestamp)).toEqual([1735689600000, 1735689601000]);
+  });
+
+  it('names the offending line', () => {
+    expect(() => parseTickFile('timestamp,price\n1735689600000,3350\n1735689601000,-1\n')).toThrow('Line 3');
+  });
+});
+
+describe('replay session', () => {
+  it('hands a freshly loaded feed its first trade while paused', () => {
+    const session = createReplaySession('test', ticks);
+    let reset: HistoryPoint[] | null = null;
+    const disconnect = session.provider.connect('ETH', {
+      onTick: () => {},
+      onOpen: () => {},
+      onClose: () => {},
+      onReset: (t) => { reset = t; },
+    });
+    disconnect();
+    expect(session.getState().status).toBe('paused');
+    expect(reset).toEqual([ticks[0]]);
+  });
+});
@@ -0,0 +1,224 @@
+import { HistoryPoint } from '../types';
+import { AssetId, MarketDataProvider, FeedHandlers } from './marketData';
+
+// --- TICK REPLAY ---
+// Recorded trade files (CSV or JSONL of timestamp / price / qty) played back as a
+// market data provider, so they go through exactly the same pipeline as a live feed.
+
+export type TickFileFormat = 'csv' | 'jsonl';
+
+export type ReplayStatus = 'playing' | 'paused' | 'ended';
+
+export interface ReplayState {
+  status: ReplayStatus;
+  cursor: number; // Recorded time reached so far
+  speed: number;  // Recorded ms per wall-clock ms
+}
+
+export interface ReplaySession {
+  name: string;
+  ticks: HistoryPoint[];
+  start: number;
+  end: number;
+  provider: MarketDataProvider;
+  getState: () => ReplayState;
+  subscribe: (listener: (state: ReplayState) => void) => () => void;
+  play: () => void;
+  pause: () => void;
+  seek: (timestamp: number) => void;
+  setSpeed: (speed: number) => void;
+}
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 25, 50, 100];
+
+// Playback advances in steps of this many wall-clock ms
+const STEP_MS = 50;
+
+// Ticks restored into the buffer after a seek (matches the live tick buffer)
+const SEEK_WINDOW = 150;
+
+const TIME_KEYS = ['timestamp', 'time', 'ts', 't'];
+const PRICE_KEYS = ['price', 'p'];
+const QTY_KEYS = ['qty', 'quantity', 'volume', 'size', 'q'];
+
+// Epoch seconds, epoch ms or an ISO date
+const parseTime = (value: unknown): number => {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim()))) {
+    const n = Number(value);
+    return n < 1e11 ? Math.round(n * 1000) : Math.round(n);
+  }
+  return typeof value === 'string' ? Date.parse(value) : NaN;
+};
+
+const toTick = (time: unknown, price: unknown, qty: unknown, line: number): HistoryPoint => {
+  const timestamp = parseTime(time);
+  const p = Number(price);
+  if (!Number.isFinite(timestamp) || !(p > 0)) throw new Error(`Line ${line}: expected a timestamp and a positive price`);
+  const volume = qty === undefined || qty === null || qty === '' ? NaN : Number(qty);
+  return { timestamp, price: p, volume: Number.isFinite(volume) ? volume : undefined };
+};
+
+const pick = (record: Record<string, unknown>, keys: string[]) => {
+  const key = Object.keys(record).find(k => keys.includes(k.toLowerCase()));
+  return key === undefined ? undefined : record[key];
+};
+
+/**
+ * Parses a recorded trade file. JSONL is detected by its first line being an object;
+ * CSV may have a header naming the columns, otherwise timestamp, price, qty is assumed.
+ */
+export function parseTickFile(text: string): HistoryPoint[] {
+  const lines = text.split(/\r?\n/).map(l => l.trim());
+  const rows = lines.map((l, i) => [l, i + 1] as const).filter(([l]) => l !== '');
+  if (rows.length === 0) throw new Error('File is empty');
+
+  let ticks: HistoryPoint[];
+  if (rows[0][0].startsWith('{')) {
+    ticks = rows.map(([l, n]) => {
+      let record: Record<string, unknown>;
+      try {
+        record = JSON.parse(l);
+      } catch {
+        throw new Error(`Line ${n}: not valid JSON`);
+      }
+      return toTick(pick(record, TIME_KEYS), pick(record, PRICE_KEYS), pick(record, QTY_KEYS), n);
+    });
+  } else {
+    const first = rows[0][0].split(',').map(c => c.trim().toLowerCase());
+    const hasHeader = first.some(c => /[a-z]/.test(c) && !/^\d{4}-/.test(c));
+    const column = (keys: string[], fallback: number) => {
+      if (!hasHeader) return fallback;
+      return first.findIndex(c => keys.includes(c));
+    };
+    const [ti, pi, qi] = [column(TIME_KEYS, 0), column(PRICE_KEYS, 1), column(QTY_KEYS, 2)];
+    if (ti === -1 || pi === -1) throw new Error('CSV header needs timestamp and price columns');
+    ticks = rows.slice(hasHeader ? 1 : 0).map(([l, n]) => {
+      const cells = l.split(',').map(c => c.trim());
+      return toTick(cells[ti], cells[pi], qi === -1 ? undefined : cells[qi], n);
+    });
+  }
+
+  if (ticks.length === 0) throw new Error('No trades found in file');
+  return ticks.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Serializes ticks in the format parseTickFile reads back.
+ */
+export function formatTickFile(ticks: HistoryPoint[], format: TickFileFormat): string {
+  if (format === 'jsonl') {
+    return ticks.map(t => JSON.stringify({ timestamp: t.timestamp, price: t.price, qty: t.volume ?? null })).join('\n') + '\n';
+  }
+  return ['timestamp,price,qty', ...ticks.map(t => `${t.timestamp},${t.price},${t.volume ?? ''}`)].join('\n') + '\n';
+}
+
+/**
+ * Playback of a recorded file. The session owns the cursor, so disconnecting (e.g.
+ * switching asset) and reconnecting resumes where it was. Seeking hands the feed the
+ * trades leading up to the new cursor through onReset.
+ */
+export function createReplaySession(name: string, ticks: HistoryPoint[]): ReplaySession {
+  const start = ticks[0].timestamp;
+  const end = ticks[ticks.length - 1].timestamp;
+  let state: ReplayState = { status: 'paused', cursor: start, speed: 1 };
+  let handlers: FeedHandlers | null = null;
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let lastStepAt = 0;
+  const listeners = new Set<(state: ReplayState) => void>();
+
+  const update = (patch: Partial<ReplayState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(l => l(state));
+  };
+
+  // Index of the first tick after `timestamp`
+  const indexAfter = (timestamp: number) => {
+    let lo = 0;
+    let hi = ticks.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (ticks[mid].timestamp <= timestamp) lo = mid + 1; else hi = mid;
+    }
+    return lo;
+  };
+
+  // Index of the first tick not yet emitted: everything at or before the cursor has been, so a
+  // freshly loaded (or rewound) session already shows its first trade while paused
+  let next = indexAfter(start);
+
+  const reset = () => handlers?.onReset?.(ticks.slice(Math.max(0, next - SEEK_WINDOW), next));
+
+  const step = () => {
+    const now = performance.now();
+    const cursor = Math.min(end, state.cursor + (now - lastStepAt) * state.speed);
+    lastStepAt = now;
+    while (next < ticks.length && ticks[next].timestamp <= cursor) handlers?.onTick(ticks[next++]);
+    if (next >= ticks.length) {
+      stop();
+      update({ cursor: end, status: 'ended' });
+    } else {
+      update({ cursor });
+    }
+  };
+
+  const run = () => {
+    if (timer !== undefined || !handlers) return;
+    lastStepAt = performance.now();
+    timer = setInterval(step, STEP_MS);
+  };
+  const stop = () => {
+    clearInterval(timer);
+    timer = undefined;
+  };
+
+  const provider: MarketDataProvider = {
+    id: 'replay',
+    label: 'Replay',
+    pair: (asset: AssetId) => `${asset} · ${name}`,
+    connect: (_asset, feed) => {
+      handlers = feed;
+      feed.onOpen();
+      reset();
+      if (state.status === 'playing') run();
+      return () => {
+        stop();
+        handlers = null;
+        feed.onClose();
+      };
+    },
+  };
+
+  return {
+    name,
+    ticks,
+    start,
+    end,
+    provider,
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    play: () => {
+      if (state.status === 'ended') {
+        next = indexAfter(start);
+        update({ cursor: start });
+        reset();
+      }
+      update({ status: 'playing' });
+      run();
+    },
+    pause: () => {
+      stop();
+      update({ status: 'paused' });
+    },
+    seek: (timestamp) => {
+      const cursor = Math.min(end, Math.max(start, timestamp));
+      next = indexAfter(cursor);
+      update({ cursor, status: state.status === 'ended' ? 'paused' : state.status });
+      lastStepAt = performance.now();
+      reset();
+    },
+    setSpeed: (speed) => update({ speed }),
+  };
+}
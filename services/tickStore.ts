@@ -0,0 +1,147 @@
+import { Candle, HistoryPoint } from '../types';
+import { aggregateCandles, combineCandles } from '../utils/candles';
+
+// --- TICK PERSISTENCE (IndexedDB) ---
+// Raw ticks are kept for a few hours (1s candles and the restored tick buffer);
+// 1m candles are upserted alongside them and kept for weeks, so coarser views
+// are resampled from those instead of replaying millions of trades.
+
+const DB_NAME = 'etherquant';
+const DB_VERSION = 1;
+const TICKS = 'ticks';
+const MINUTE_CANDLES = 'candles1m';
+
+const MINUTE_MS = 60 * 1000;
+const TICK_RETENTION_MS = 6 * 60 * MINUTE_MS;
+const CANDLE_RETENTION_MS = 30 * 24 * 60 * MINUTE_MS;
+
+// One series per venue and asset, so venues are never stitched together
+export const seriesKey = (provider: string, asset: string) => `${provider}:${asset}`;
+
+type StoredTick = HistoryPoint & { series: string };
+type StoredCandle = Candle & { series: string };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') throw new Error('IndexedDB unavailable');
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        const ticks = db.createObjectStore(TICKS, { autoIncrement: true });
+        ticks.createIndex('series_time', ['series', 'timestamp']);
+        ticks.createIndex('time', 'timestamp');
+        const candles = db.createObjectStore(MINUTE_CANDLES, { keyPath: ['series', 'timestamp'] });
+        candles.createIndex('time', 'timestamp');
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Allow a later call to retry (e.g. after the user clears site data)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Walks a cursor, calling `visit` per record until it returns false or the range ends.
+ */
+const walk = (req: IDBRequest<IDBCursorWithValue | null>, visit: (cursor: IDBCursorWithValue) => boolean) =>
+  new Promise<void>((resolve, reject) => {
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (cursor && visit(cursor)) cursor.continue();
+      else resolve();
+    };
+    req.onerror = () => reject(req.error);
+  });
+
+const seriesRange = (series: string, since: number) => IDBKeyRange.bound([series, since], [series, Infinity]);
+
+/**
+ * Persists ticks (sorted by time) and folds them into the series' 1m candles.
+ */
+export async function appendTicks(series: string, ticks: HistoryPoint[]): Promise<void> {
+  if (ticks.length === 0) return;
+  try {
+    const db = await openDb();
+    const tx = db.transaction([TICKS, MINUTE_CANDLES], 'readwrite');
+    const tickStore = tx.objectStore(TICKS);
+    const candleStore = tx.objectStore(MINUTE_CANDLES);
+
+    ticks.forEach(t => tickStore.add({ series, timestamp: t.timestamp, price: t.price, volume: t.volume } satisfies StoredTick));
+    aggregateCandles(ticks, MINUTE_MS).forEach(candle => {
+      const req = candleStore.get([series, candle.timestamp]);
+      req.onsuccess = () => {
+        const existing: StoredCandle | undefined = req.result;
+        candleStore.put({ ...(existing ? combineCandles(existing, candle) : candle), series } satisfies StoredCandle);
+      };
+    });
+
+    await transactionDone(tx);
+  } catch {
+    // Storage disabled or full: history simply won't outlive the tab
+  }
+}
+
+/**
+ * The latest `limit` ticks of a series at or after `since`, oldest first.
+ */
+export async function loadTicks(series: string, since: number, limit = Infinity): Promise<HistoryPoint[]> {
+  try {
+    const db = await openDb();
+    const ticks: HistoryPoint[] = [];
+    const index = db.transaction(TICKS).objectStore(TICKS).index('series_time');
+    await walk(index.openCursor(seriesRange(series, since), 'prev'), cursor => {
+      const { timestamp, price, volume } = cursor.value as StoredTick;
+      ticks.push({ timestamp, price, volume });
+      return ticks.length < limit;
+    });
+    return ticks.reverse();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Stored 1m candles of a series from `since` onwards, oldest first.
+ */
+export async function loadMinuteCandles(series: string, since: number): Promise<Candle[]> {
+  try {
+    const db = await openDb();
+    const stored: StoredCandle[] = await new Promise((resolve, reject) => {
+      const req = db.transaction(MINUTE_CANDLES).objectStore(MINUTE_CANDLES).getAll(seriesRange(series, since));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    return stored.map(({ series: _, ...candle }) => candle);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Drops ticks and candles past their retention window.
+ */
+export async function pruneStore(now: number): Promise<void> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction([TICKS, MINUTE_CANDLES], 'readwrite');
+    const expire = (store: string, cutoff: number) =>
+      walk(tx.objectStore(store).index('time').openCursor(IDBKeyRange.upperBound(cutoff, true)), cursor => {
+        cursor.delete();
+        return true;
+      });
+    await Promise.all([expire(TICKS, now - TICK_RETENTION_MS), expire(MINUTE_CANDLES, now - CANDLE_RETENTION_MS), transactionDone(tx)]);
+  } catch {
+    // Nothing to prune when storage is unavailable
+  }
+}
@@ -0,0 +1,100 @@
+// --- SHARED TYPES ---
+
+export type DriftSource = 'manual' | 'riskNeutral' | 'ewma' | 'funding';
+
+export type VolSource = 'live' | 'realized' | 'manual';
+
+export type TargetMode = 'single' | 'range';
+
+// A rolling horizon from now, or a countdown to a fixed expiry
+export type HorizonMode = 'relative' | 'expiry';
+
+export interface HistoryPoint {
+  timestamp: number;
+  price: number;
+  volume?: number; // Traded quantity, where the venue reports it
+}
+
+export interface Candle {
+  timestamp: number; // Bucket open time
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  ticks: number;
+}
+
+export interface OptionGreeks {
+  price: number;
+  delta: number;
+  gamma: number;
+  vega: number;  // Per 1 vol point (σ + 0.01)
+  theta: number; // Per calendar day
+}
+
+export interface OptionPricing {
+  d1: number;
+  d2: number;
+  discount: number; // e^(-rt)
+  call: OptionGreeks;
+  put: OptionGreeks;
+  digitalCall: OptionGreeks; // Cash-or-nothing, pays 1
+  digitalPut: OptionGreeks;
+}
+
+export interface ChartPoint {
+  timestamp: number;
+  price?: number;
+  mean?: number;
+  // Ranges for cones: [Lower, Upper]
+  sigma1?: [number, number];
+  sigma2?: [number, number];
+  sigma3?: [number, number];
+  // Monte Carlo sample paths, one entry per plotted path
+  paths?: number[];
+  // Plain GBM 2σ/3σ edges [l3, l2, u2, u3], drawn when a fat-tailed model fills the cone
+  gbm?: number[];
+  // Candle [low, high] in candle views
+  range?: [number, number];
+}
+
+// One line of the Solution Notebook
+export interface NotebookStep {
+  label: string;
+  formula: string;
+  result: string;
+  desc?: string;
+}
+
+export interface NotebookSection {
+  title: string;
+  columns: 1 | 2 | 3;
+  steps: NotebookStep[];
+}
+
+// Position risk inputs as entered; a null entry fills at the live spot
+export interface PositionInput {
+  side: 'long' | 'short';
+  size: number;
+  entry: number | null;
+  stop: number | null;
+  takeProfit: number | null;
+}
+
+// P&L quantiles of the position at one step of the horizon
+export interface PnlFanPoint {
+  minutes: number;
+  median: number;
+  band50: [number, number]; // 25–75%
+  band90: [number, number]; // 5–95%
+  band98: [number, number]; // 1–99%
+}
+
+// Probabilities of finishing beyond each strike (away from spot) at each horizon
+export interface ProbabilityGrid {
+  spot: number;
+  strikes: number[];   // Descending, top row first
+  horizons: number[];  // Minutes, ascending
+  cells: number[][];   // cells[strike][horizon]
+}
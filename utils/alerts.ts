@@ -0,0 +1,150 @@
+// --- ALERT RULES ---
+
+export type AlertKind = 'priceCross' | 'probabilityCross' | 'coneExit' | 'dvolJump';
+
+export const ALERT_KINDS: Record<AlertKind, { label: string; unit: string; defaultThreshold: number }> = {
+  priceCross: { label: 'Price crosses target', unit: '', defaultThreshold: 0 },
+  probabilityCross: { label: 'Probability crosses', unit: '%', defaultThreshold: 50 },
+  coneExit: { label: 'Price exits cone', unit: 'σ', defaultThreshold: 2 },
+  dvolJump: { label: 'DVOL moves by', unit: 'pts', defaultThreshold: 5 },
+};
+
+export interface AlertRule {
+  id: string;
+  kind: AlertKind;
+  threshold: number;       // Probability %, cone width in σ or DVOL points; unused for priceCross
+  cooldownMinutes: number; // Minimum gap between two firings
+  enabled: boolean;
+  lastFiredAt?: number;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  kind: AlertKind;
+  asset: string;
+  firedAt: number;
+  message: string;
+}
+
+// Market state the rules are checked against, taken once per update
+export interface AlertSnapshot {
+  asset: string;
+  timestamp: number;
+  price: number;
+  target: number | null;      // null in range mode
+  probability: number;        // Headline probability
+  direction: string;          // What the probability is of, e.g. "above 3000"
+  model: string;              // Distribution label
+  horizon: string;            // Horizon setting, e.g. "60m" or an expiry; the countdown leaves it alone
+  dvol: number | null;        // null when no live DVOL reading
+  sigma: number;              // Annualized, decimal
+  drift: number;              // ν = μ - σ²/2
+  horizonMinutes: number;
+}
+
+// Per-rule reference points kept between updates (not persisted)
+export interface AlertRuleState {
+  coneAnchor?: { timestamp: number; price: number };
+  dvolBaseline?: number;
+}
+
+const MINUTES_PER_YEAR = 525600;
+
+// Right after anchoring the cone is narrower than bid/ask bounce; wait before judging exits
+const MIN_CONE_AGE_MS = 5000;
+
+const side = (price: number, level: number) => Math.sign(price - level);
+
+/**
+ * Checks one rule against the previous and current snapshots. Returns the alert
+ * message if it triggers, updating the rule's reference points in `state`.
+ */
+function checkRule(rule: AlertRule, state: AlertRuleState, prev: AlertSnapshot | null, curr: AlertSnapshot): string | null {
+  const sameAsset = prev !== null && prev.asset === curr.asset;
+
+  switch (rule.kind) {
+    case 'priceCross': {
+      if (!sameAsset || curr.target === null || prev.target !== curr.target) return null;
+      const before = side(prev.price, curr.target);
+      const after = side(curr.price, curr.target);
+      if (before === 0 || after === 0 || before === after) return null;
+      return `${curr.asset} crossed ${after > 0 ? 'above' : 'below'} target ${curr.target} at ${curr.price.toFixed(2)}`;
+    }
+
+    case 'probabilityCross': {
+      // Editing the question moves the probability without any market move
+      if (!sameAsset || prev.direction !== curr.direction || prev.target !== curr.target ||
+        prev.model !== curr.model || prev.horizon !== curr.horizon) return null;
+      const level = rule.threshold / 100;
+      const before = side(prev.probability, level);
+      const after = side(curr.probability, level);
+      if (before === after || after === 0) return null;
+      return `P(${curr.direction}) ${after > 0 ? 'rose above' : 'fell below'} ${rule.threshold}% (now ${(curr.probability * 100).toFixed(1)}%)`;
+    }
+
+    case 'coneExit': {
+      // The cone is anchored where the rule was armed and re-anchored after each exit or horizon
+      const anchor = state.coneAnchor;
+      if (!sameAsset || !anchor || curr.timestamp - anchor.timestamp > curr.horizonMinutes * 60 * 1000) {
+        state.coneAnchor = { timestamp: curr.timestamp, price: curr.price };
+        return null;
+      }
+      const age = curr.timestamp - anchor.timestamp;
+      if (age < MIN_CONE_AGE_MS) return null;
+      const t = age / 60000 / MINUTES_PER_YEAR;
+      const z = (Math.log(curr.price / anchor.price) - curr.drift * t) / (curr.sigma * Math.sqrt(t));
+      if (Math.abs(z) < rule.threshold) return null;
+      state.coneAnchor = { timestamp: curr.timestamp, price: curr.price };
+      return `${curr.asset} left the ${rule.threshold}σ cone ${z > 0 ? 'upwards' : 'downwards'} (z = ${z.toFixed(2)}) at ${curr.price.toFixed(2)}`;
+    }
+
+    case 'dvolJump': {
+      if (curr.dvol === null) return null;
+      if (!sameAsset || state.dvolBaseline === undefined) {
+        state.dvolBaseline = curr.dvol;
+        return null;
+      }
+      const move = curr.dvol - state.dvolBaseline;
+      if (Math.abs(move) < rule.threshold) return null;
+      state.dvolBaseline = curr.dvol;
+      return `${curr.asset} DVOL ${move > 0 ? 'up' : 'down'} ${Math.abs(move).toFixed(1)} pts to ${curr.dvol.toFixed(1)}`;
+    }
+  }
+}
+
+/**
+ * Runs every enabled rule. Rules inside their cooldown still track crossings and
+ * reference points but stay silent.
+ */
+export function evaluateAlerts(
+  rules: AlertRule[],
+  states: Map<string, AlertRuleState>,
+  prev: AlertSnapshot | null,
+  curr: AlertSnapshot
+): AlertEvent[] {
+  const events: AlertEvent[] = [];
+  for (const rule of rules) {
+    if (!rule.enabled) {
+      // Re-enabling starts from fresh reference points
+      states.delete(rule.id);
+      continue;
+    }
+    const state = states.get(rule.id) ?? {};
+    states.set(rule.id, state);
+
+    const message = checkRule(rule, state, prev, curr);
+    if (!message) continue;
+    if (rule.lastFiredAt !== undefined && curr.timestamp - rule.lastFiredAt < rule.cooldownMinutes * 60 * 1000) continue;
+
+    events.push({
+      id: `${rule.id}-${curr.timestamp}`,
+      ruleId: rule.id,
+      kind: rule.kind,
+      asset: curr.asset,
+      firedAt: curr.timestamp,
+      message,
+    });
+  }
+  return events;
+}
@@ -0,0 +1,145 @@
+import { HistoryPoint } from '../types';
+
+// --- FORECAST CALIBRATION ---
+
+export type ForecastStatus = 'pending' | 'resolved' | 'void';
+
+export interface Forecast {
+  id: string;
+  asset?: string;          // Missing on records saved before multi-asset support (ETH)
+  provider?: string;       // Feed S came from; missing on records saved before venue selection (Binance)
+  createdAt: number;
+  expiresAt: number;
+  S: number;
+  K: number;
+  timeMinutes: number;
+  sigma: number;
+  mu: number;
+  direction: 'above' | 'below';
+  probability: number;     // Forecast P(S_t beyond K)
+  model?: string;          // Distribution label; missing on records saved before model selection (GBM)
+  volSource: string;       // Label of the σ source at snapshot time
+  bias: string;            // Drift source label (bear/neutral/bull on older records)
+  status: ForecastStatus;
+  resolvedAt?: number;
+  resolvedPrice?: number;
+  outcome?: 0 | 1;         // 1 if the price finished beyond K
+}
+
+export interface CalibrationSummary {
+  count: number;
+  hitRate: number;      // Observed frequency of the forecast event
+  meanForecast: number; // Average forecast probability
+  brier: number;
+  logLoss: number;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  meanForecast: number;
+  observed: number;
+  count: number;
+}
+
+// Keeps log-loss finite for forecasts of exactly 0 or 1
+const LOG_LOSS_EPSILON = 1e-6;
+
+// A live trade later than this after expiry no longer stands for the price at it;
+// the venue's trade history is asked instead
+export const RESOLUTION_GRACE_MS = 60 * 1000;
+
+const resolvedOnly = (forecasts: Forecast[]) =>
+  forecasts.filter((f): f is Forecast & { outcome: 0 | 1 } => f.status === 'resolved' && f.outcome !== undefined);
+
+export function summarize(forecasts: Forecast[]): CalibrationSummary | null {
+  const resolved = resolvedOnly(forecasts);
+  if (resolved.length === 0) return null;
+
+  let hits = 0, forecastSum = 0, brier = 0, logLoss = 0;
+  for (const f of resolved) {
+    const p = Math.min(1 - LOG_LOSS_EPSILON, Math.max(LOG_LOSS_EPSILON, f.probability));
+    hits += f.outcome;
+    forecastSum += f.probability;
+    brier += (f.probability - f.outcome) ** 2;
+    logLoss -= f.outcome * Math.log(p) + (1 - f.outcome) * Math.log(1 - p);
+  }
+
+  const n = resolved.length;
+  return { count: n, hitRate: hits / n, meanForecast: forecastSum / n, brier: brier / n, logLoss: logLoss / n };
+}
+
+/**
+ * Groups resolved forecasts into equal-width probability bins for a reliability diagram.
+ * A well-calibrated model puts every bin on the diagonal (observed = forecast).
+ */
+export function reliabilityBins(forecasts: Forecast[], binCount = 10): ReliabilityBin[] {
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    lower: i / binCount,
+    upper: (i + 1) / binCount,
+    forecastSum: 0,
+    hits: 0,
+    count: 0,
+  }));
+
+  for (const f of resolvedOnly(forecasts)) {
+    const bin = bins[Math.min(binCount - 1, Math.floor(f.probability * binCount))];
+    bin.forecastSum += f.probability;
+    bin.hits += f.outcome;
+    bin.count++;
+  }
+
+  return bins
+    .filter(b => b.count > 0)
+    .map(b => ({ lower: b.lower, upper: b.upper, meanForecast: b.forecastSum / b.count, observed: b.hits / b.count, count: b.count }));
+}
+
+/**
+ * Per-group summaries, e.g. by volatility source or bias.
+ */
+export function summarizeBy(forecasts: Forecast[], key: (f: Forecast) => string): { group: string; summary: CalibrationSummary }[] {
+  const groups = new Map<string, Forecast[]>();
+  for (const f of forecasts) {
+    const k = key(f);
+    groups.set(k, [...(groups.get(k) ?? []), f]);
+  }
+  return [...groups.entries()]
+    .map(([group, items]) => ({ group, summary: summarize(items) }))
+    .filter((g): g is { group: string; summary: CalibrationSummary } => g.summary !== null)
+    .sort((a, b) => b.summary.count - a.summary.count);
+}
+
+export const forecastAsset = (f: Forecast) => f.asset ?? 'ETH';
+
+export const forecastModel = (f: Forecast) => f.model ?? 'GBM';
+
+export const forecastProvider = (f: Forecast) => f.provider ?? 'binance';
+
+const settle = (f: Forecast, price: number, now: number): Forecast => {
+  const hit = f.direction === 'above' ? price > f.K : price < f.K;
+  return { ...f, status: 'resolved', resolvedAt: now, resolvedPrice: price, outcome: hit ? 1 : 0 };
+};
+
+/**
+ * Settles the expired pending forecasts made on this feed and asset against its last trade,
+ * which the caller only passes while the feed has stayed fresh since: a trade before the
+ * expiry is then still the price at it. Forecasts the trade is too late for are left for
+ * settleForecast. Returns the same array instance when nothing changed so React can skip the update.
+ */
+export function resolveForecasts(forecasts: Forecast[], provider: string, asset: string, tick: HistoryPoint, now: number): Forecast[] {
+  let changed = false;
+  const next = forecasts.map(f => {
+    if (f.status !== 'pending' || now < f.expiresAt || forecastProvider(f) !== provider || forecastAsset(f) !== asset) return f;
+    if (tick.timestamp - f.expiresAt > RESOLUTION_GRACE_MS) return f;
+    changed = true;
+    return settle(f, tick.price, now);
+  });
+  return changed ? next : forecasts;
+}
+
+/**
+ * Settles a forecast against the trade looked up at its expiry; voided when the venue had none.
+ */
+export function settleForecast(f: Forecast, trade: HistoryPoint | null, now: number): Forecast {
+  return trade ? settle(f, trade.price, now) : { ...f, status: 'void', resolvedAt: now };
+}
@@ -0,0 +1,97 @@
+import { Candle, HistoryPoint } from '../types';
+
+// --- OHLCV CANDLES ---
+
+export type CandleResolution = '1s' | '1m' | '5m' | '1h';
+
+// 'tick' plots the raw in-memory tick buffer
+export type ChartResolution = 'tick' | CandleResolution;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const CANDLE_RESOLUTIONS: Record<CandleResolution, { label: string; ms: number; maxCandles: number }> = {
+  '1s': { label: '1s', ms: 1000, maxCandles: 900 },          // 15 minutes
+  '1m': { label: '1m', ms: MINUTE_MS, maxCandles: 1440 },    // 1 day
+  '5m': { label: '5m', ms: 5 * MINUTE_MS, maxCandles: 2016 }, // 1 week
+  '1h': { label: '1h', ms: HOUR_MS, maxCandles: 720 },       // 30 days
+};
+
+/**
+ * Buckets ticks into OHLC candles of a fixed width. Empty buckets are skipped.
+ */
+export function aggregateCandles(ticks: HistoryPoint[], intervalMs: number): Candle[] {
+  const candles: Candle[] = [];
+  for (const tick of ticks) {
+    const bucket = Math.floor(tick.timestamp / intervalMs) * intervalMs;
+    const volume = tick.volume ?? 0;
+    const last = candles[candles.length - 1];
+    if (last && last.timestamp === bucket) {
+      last.high = Math.max(last.high, tick.price);
+      last.low = Math.min(last.low, tick.price);
+      last.close = tick.price;
+      last.volume += volume;
+      last.ticks++;
+    } else {
+      candles.push({ timestamp: bucket, open: tick.price, high: tick.price, low: tick.price, close: tick.price, volume, ticks: 1 });
+    }
+  }
+  return candles;
+}
+
+/**
+ * Joins two candles covering the same bucket, `later` holding the more recent trades.
+ */
+export const combineCandles = (earlier: Candle, later: Candle): Candle => ({
+  timestamp: earlier.timestamp,
+  open: earlier.open,
+  high: Math.max(earlier.high, later.high),
+  low: Math.min(earlier.low, later.low),
+  close: later.close,
+  volume: earlier.volume + later.volume,
+  ticks: earlier.ticks + later.ticks,
+});
+
+/**
+ * Re-buckets sorted candles into a coarser interval (e.g. 1m into 5m or 1h).
+ */
+export function resampleCandles(candles: Candle[], intervalMs: number): Candle[] {
+  const out: Candle[] = [];
+  for (const candle of candles) {
+    const bucket = Math.floor(candle.timestamp / intervalMs) * intervalMs;
+    const last = out[out.length - 1];
+    if (last && last.timestamp === bucket) out[out.length - 1] = combineCandles(last, candle);
+    else out.push({ ...candle, timestamp: bucket });
+  }
+  return out;
+}
+
+/**
+ * Merges two sorted candle series of the same interval, combining shared buckets.
+ */
+export function mergeCandles(base: Candle[], updates: Candle[]): Candle[] {
+  if (updates.length === 0) return base;
+  const merged: Candle[] = [];
+  let i = 0, j = 0;
+  while (i < base.length || j < updates.length) {
+    const a = base[i], b = updates[j];
+    if (b === undefined || (a !== undefined && a.timestamp < b.timestamp)) {
+      merged.push(a);
+      i++;
+    } else if (a === undefined || b.timestamp < a.timestamp) {
+      merged.push(b);
+      j++;
+    } else {
+      merged.push(combineCandles(a, b));
+      i++;
+      j++;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Folds new ticks into a candle series, keeping at most `maxCandles` of the latest buckets.
+ */
+export const insertTicks = (candles: Candle[], ticks: HistoryPoint[], intervalMs: number, maxCandles: number) =>
+  mergeCandles(candles, aggregateCandles(ticks, intervalMs)).slice(-maxCandles);
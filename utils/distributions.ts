@@ -0,0 +1,268 @@
+// --- LOG-RETURN DISTRIBUTIONS ---
+// Each model is described by the distribution of X = ln(S_t / S_0) over a horizon t.
+
+import { cumulativeDistribution, inverseCumulativeDistribution, normalDensity } from '../quant/normal';
+
+export type ModelKind = 'gbm' | 'merton' | 'studentT';
+
+export const MODEL_LABELS: Record<ModelKind, string> = {
+  gbm: 'GBM',
+  merton: 'Merton Jump',
+  studentT: 'Student-t',
+};
+
+export interface MertonParams {
+  lambda: number;   // Jumps per year
+  jumpMean: number; // Mean log jump size (m)
+  jumpVol: number;  // Std dev of log jump size (δ)
+}
+
+export interface LogReturnDistribution {
+  pdf: (x: number) => number;      // Density of X
+  cdf: (x: number) => number;      // P(X ≤ x)
+  quantile: (p: number) => number; // Inverse of cdf
+}
+
+/**
+ * Inverts a monotone CDF by bisection inside [lo, hi], widening the bracket if needed.
+ */
+function invertCdf(cdf: (x: number) => number, p: number, lo: number, hi: number): number {
+  while (cdf(lo) > p) lo -= hi - lo;
+  while (cdf(hi) < p) hi += hi - lo;
+  for (let i = 0; i < 100 && hi - lo > 1e-10; i++) {
+    const mid = 0.5 * (lo + hi);
+    if (cdf(mid) < p) lo = mid;
+    else hi = mid;
+  }
+  return 0.5 * (lo + hi);
+}
+
+// --- GBM ---
+
+/**
+ * Lognormal GBM: X ~ N(νt, σ²t) with ν = μ - σ²/2.
+ */
+export function gbmDistribution(mu: number, sigma: number, t: number): LogReturnDistribution {
+  const mean = (mu - 0.5 * sigma * sigma) * t;
+  const sd = sigma * Math.sqrt(t);
+  return {
+    pdf: (x) => normalDensity((x - mean) / sd) / sd,
+    cdf: (x) => cumulativeDistribution((x - mean) / sd),
+    quantile: (p) => mean + sd * inverseCumulativeDistribution(p),
+  };
+}
+
+// --- MERTON JUMP-DIFFUSION ---
+
+// Poisson terms are summed until this much probability mass is covered
+const POISSON_MASS = 1 - 1e-10;
+const MAX_JUMPS = 200;
+
+/**
+ * Diffusive variance left once jumps are accounted for, so the model keeps the same
+ * total variance σ² as GBM and differs only in tail shape. Floored at 1% of σ².
+ */
+export function mertonDiffusiveVariance(sigma: number, params: MertonParams) {
+  const jumpVariance = params.lambda * (params.jumpMean ** 2 + params.jumpVol ** 2);
+  const raw = sigma * sigma - jumpVariance;
+  const floor = 0.01 * sigma * sigma;
+  return { variance: Math.max(raw, floor), isClamped: raw < floor, jumpVariance };
+}
+
+/**
+ * Merton (1976): X = (μ - σd²/2 - λκ)t + σd·W_t + Σ Yᵢ, with N_t ~ Poisson(λt) jumps
+ * Yᵢ ~ N(m, δ²) and κ = e^(m + δ²/2) - 1 compensating the drift so E[S_t] = S_0·e^(μt).
+ * The CDF is a Poisson-weighted mixture of normals.
+ */
+export function mertonDistribution(mu: number, sigma: number, t: number, params: MertonParams) {
+  const { lambda, jumpMean, jumpVol } = params;
+  const kappa = Math.exp(jumpMean + 0.5 * jumpVol * jumpVol) - 1;
+  const { variance: diffusiveVariance, isClamped } = mertonDiffusiveVariance(sigma, params);
+  const drift = (mu - 0.5 * diffusiveVariance - lambda * kappa) * t;
+  const expectedJumps = lambda * t;
+
+  // Precompute mixture components: weight, mean, sd for n jumps
+  const components: { weight: number; mean: number; sd: number }[] = [];
+  let weight = Math.exp(-expectedJumps);
+  let mass = 0;
+  for (let n = 0; n <= MAX_JUMPS && mass < POISSON_MASS; n++) {
+    if (n > 0) weight *= expectedJumps / n;
+    mass += weight;
+    components.push({
+      weight,
+      mean: drift + n * jumpMean,
+      sd: Math.sqrt(diffusiveVariance * t + n * jumpVol * jumpVol),
+    });
+  }
+
+  const cdf = (x: number) =>
+    components.reduce((acc, c) => acc + c.weight * cumulativeDistribution((x - c.mean) / c.sd), 0) / mass;
+  const pdf = (x: number) =>
+    components.reduce((acc, c) => acc + (c.weight * normalDensity((x - c.mean) / c.sd)) / c.sd, 0) / mass;
+  const spread = Math.sqrt(sigma * sigma * t) + Math.abs(jumpMean) * expectedJumps;
+
+  return {
+    pdf,
+    cdf,
+    quantile: (p: number) => invertCdf(cdf, p, drift - 10 * spread, drift + 10 * spread),
+    kappa,
+    drift,
+    expectedJumps,
+    diffusiveVol: Math.sqrt(diffusiveVariance),
+    isClamped,
+    terms: components.length,
+  };
+}
+
+// --- STUDENT-T ---
+
+/**
+ * Lanczos approximation of ln Γ(x).
+ */
+function logGamma(x: number): number {
+  const c = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let ser = 1.000000000190015;
+  for (const coeff of c) ser += coeff / ++y;
+  return -tmp + Math.log((2.5066282746310005 * ser) / x);
+}
+
+/**
+ * Continued fraction for the incomplete beta function (modified Lentz).
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const TINY = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    h *= d * c;
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return h;
+}
+
+/**
+ * Regularized incomplete beta I_x(a, b).
+ */
+function regularizedBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/**
+ * Student-t CDF with `df` degrees of freedom.
+ */
+export function studentTCdf(x: number, df: number): number {
+  const tail = 0.5 * regularizedBeta(df / (df + x * x), df / 2, 0.5);
+  return x > 0 ? 1 - tail : tail;
+}
+
+/**
+ * Student-t density with `df` degrees of freedom.
+ */
+export function studentTPdf(x: number, df: number): number {
+  const logNorm = logGamma((df + 1) / 2) - logGamma(df / 2) - 0.5 * Math.log(df * Math.PI);
+  return Math.exp(logNorm - ((df + 1) / 2) * Math.log(1 + (x * x) / df));
+}
+
+/**
+ * Student-t log returns: X = νt + s·T_df, with the scale s chosen so Var[X] = σ²t
+ * (requires df > 2). Same centre and variance as GBM, heavier tails.
+ */
+export function studentTDistribution(mu: number, sigma: number, t: number, df: number) {
+  const centre = (mu - 0.5 * sigma * sigma) * t;
+  const scale = sigma * Math.sqrt(t) * Math.sqrt((df - 2) / df);
+  const cdf = (x: number) => studentTCdf((x - centre) / scale, df);
+  return {
+    pdf: (x: number) => studentTPdf((x - centre) / scale, df) / scale,
+    cdf,
+    quantile: (p: number) => invertCdf(cdf, p, centre - 20 * scale, centre + 20 * scale),
+    centre,
+    scale,
+  };
+}
+
+// Lower-tail mass outside the 1σ, 2σ, 3σ normal bands (15.9%, 2.3%, 0.13%), so
+// any model's cone can match GBM's coverage by taking quantiles at p and 1 - p
+export const SIGMA_TAILS = [1, 2, 3].map(n => cumulativeDistribution(-n));
+
+// --- TERMINAL PRICE ---
+
+export interface TerminalPricePoint {
+  price: number;
+  pdf: number; // Density of S_t per $1
+  cdf: number; // P(S_t ≤ price)
+}
+
+export interface TerminalPriceSummary {
+  points: TerminalPricePoint[];
+  mean: number;
+  median: number;
+  mode: number;
+  bands: [number, number][]; // 1σ, 2σ, 3σ coverage, as in the cone
+}
+
+// Plotted range, as lower-tail mass cut from each side
+const TERMINAL_TAIL = 1e-4;
+
+/**
+ * Density and CDF of S_t = S_0·e^X on an even price grid, f_S(s) = f_X(ln(s/S_0)) / s.
+ * `extra` prices (e.g. a target) are added to the grid so shading starts exactly there.
+ * The mean is integrated over the plotted range, which the Student-t needs anyway
+ * since E[e^X] diverges under its power-law tails.
+ */
+export function terminalPriceDistribution(dist: LogReturnDistribution, S: number, steps = 160, extra: number[] = []): TerminalPriceSummary {
+  const lo = S * Math.exp(dist.quantile(TERMINAL_TAIL));
+  const hi = S * Math.exp(dist.quantile(1 - TERMINAL_TAIL));
+  const prices = Array.from({ length: steps + 1 }, (_, i) => lo + ((hi - lo) * i) / steps);
+  for (const p of extra) if (p > lo && p < hi) prices.push(p);
+  prices.sort((a, b) => a - b);
+
+  const points = prices.map(price => {
+    const x = Math.log(price / S);
+    return { price, pdf: dist.pdf(x) / price, cdf: dist.cdf(x) };
+  });
+
+  let mass = 0;
+  let moment = 0;
+  let mode = points[0];
+  for (let i = 1; i < points.length; i++) {
+    const [a, b] = [points[i - 1], points[i]];
+    const width = b.price - a.price;
+    mass += 0.5 * width * (a.pdf + b.pdf);
+    moment += 0.5 * width * (a.price * a.pdf + b.price * b.pdf);
+    if (b.pdf > mode.pdf) mode = b;
+  }
+
+  const at = (p: number) => S * Math.exp(dist.quantile(p));
+  return {
+    points,
+    mean: moment / mass,
+    median: at(0.5),
+    mode: mode.price,
+    bands: SIGMA_TAILS.map(tail => [at(tail), at(1 - tail)] as [number, number]),
+  };
+}
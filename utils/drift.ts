@@ -0,0 +1,48 @@
+import { Candle, DriftSource } from '../types';
+
+// --- DRIFT (μ) ---
+
+export const DRIFT_SOURCES: Record<DriftSource, { label: string; short: string }> = {
+  manual: { label: 'Manual', short: 'Manual' },
+  riskNeutral: { label: 'Risk-Neutral Rate', short: 'r' },
+  ewma: { label: 'EWMA of Log Returns', short: 'EWMA' },
+  funding: { label: 'Perp Funding Rate', short: 'Funding' },
+};
+
+// Lookback windows for the EWMA estimate, in minutes (1m bars)
+export const DRIFT_LOOKBACKS = [
+  { minutes: 60, label: '1h' },
+  { minutes: 360, label: '6h' },
+  { minutes: 1440, label: '24h' },
+  { minutes: 10080, label: '7d' },
+];
+
+// Too few bars to say anything about the mean
+const MIN_DRIFT_BARS = 10;
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+export interface DriftEstimate {
+  nu: number;   // Annualized mean log return ν = μ - σ²/2
+  bars: number; // Returns that went into the estimate
+}
+
+/**
+ * EWMA estimate of the annualized mean log return from candle closes:
+ * ν̂ = Σwᵢrᵢ / Σwᵢ∆tᵢ with wᵢ = λ^(n-1-i) and λ = 1 - 2/(span + 1).
+ * Dividing by weighted elapsed time keeps gaps (e.g. a closed tab) from biasing it.
+ */
+export function ewmaDrift(candles: Candle[], span: number): DriftEstimate | null {
+  if (candles.length - 1 < MIN_DRIFT_BARS) return null;
+  const lambda = 1 - 2 / (span + 1);
+  let weightedReturn = 0;
+  let weightedTime = 0;
+  let weight = 1;
+  for (let i = candles.length - 1; i > 0; i--) {
+    weightedReturn += weight * Math.log(candles[i].close / candles[i - 1].close);
+    weightedTime += weight * (candles[i].timestamp - candles[i - 1].timestamp);
+    weight *= lambda;
+  }
+  if (weightedTime <= 0) return null;
+  return { nu: weightedReturn / (weightedTime / MS_PER_YEAR), bars: candles.length - 1 };
+}
@@ -0,0 +1,86 @@
+// --- OPTION EXPIRIES ---
+// Deribit's listing calendar: every contract expires at 08:00 UTC. Dailies list each day,
+// weeklies on Fridays, monthlies on the last Friday of the month and quarterlies on the
+// last Friday of March, June, September and December.
+
+export type ExpiryKind = 'daily' | 'weekly' | 'monthly' | 'quarterly';
+
+export interface Expiry {
+  timestamp: number; // Unix ms
+  kind: ExpiryKind;  // Longest cycle the date belongs to
+  code: string;      // Instrument date code, e.g. 27JUN25
+}
+
+export const EXPIRY_KINDS: Record<ExpiryKind, { label: string; count: number }> = {
+  daily: { label: 'Daily', count: 3 },
+  weekly: { label: 'Weekly', count: 3 },
+  monthly: { label: 'Monthly', count: 3 },
+  quarterly: { label: 'Quarterly', count: 2 },
+};
+
+const EXPIRY_HOUR_UTC = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FRIDAY = 5;
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+const isLastFriday = (d: Date) => d.getUTCDay() === FRIDAY && new Date(d.getTime() + 7 * DAY_MS).getUTCMonth() !== d.getUTCMonth();
+
+/**
+ * The cycle an expiry timestamp belongs to, or null when it isn't a 08:00 UTC expiry.
+ */
+export function expiryKind(timestamp: number): ExpiryKind | null {
+  const d = new Date(timestamp);
+  if (d.getUTCHours() !== EXPIRY_HOUR_UTC || d.getUTCMinutes() !== 0 || d.getUTCSeconds() !== 0 || d.getUTCMilliseconds() !== 0) return null;
+  if (isLastFriday(d)) return d.getUTCMonth() % 3 === 2 ? 'quarterly' : 'monthly';
+  return d.getUTCDay() === FRIDAY ? 'weekly' : 'daily';
+}
+
+// A quarterly also lists as a monthly, a weekly and a daily
+const belongsTo = (timestamp: number, kind: ExpiryKind) => {
+  const actual = expiryKind(timestamp);
+  if (!actual) return false;
+  const order: ExpiryKind[] = ['daily', 'weekly', 'monthly', 'quarterly'];
+  return order.indexOf(actual) >= order.indexOf(kind);
+};
+
+export const expiryCode = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getUTCDate()}${MONTHS[d.getUTCMonth()]}${String(d.getUTCFullYear()).slice(-2)}`;
+};
+
+/**
+ * Expiry timestamp of an instrument date code like "27DEC24", or null when it doesn't read as one.
+ */
+export function parseExpiryCode(code: string): number | null {
+  const match = /^(\d{1,2})([A-Z]{3})(\d{2})$/.exec(code);
+  const month = match ? MONTHS.indexOf(match[2]) : -1;
+  if (!match || month === -1) return null;
+  return Date.UTC(2000 + Number(match[3]), month, Number(match[1]), EXPIRY_HOUR_UTC);
+}
+
+/**
+ * First expiry of the given cycle strictly after `after`.
+ */
+export function nextExpiry(kind: ExpiryKind, after: number): number {
+  const d = new Date(after);
+  let candidate = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), EXPIRY_HOUR_UTC);
+  if (candidate <= after) candidate += DAY_MS;
+  // At most ~13 weeks to the next quarterly
+  while (!belongsTo(candidate, kind)) candidate += DAY_MS;
+  return candidate;
+}
+
+/**
+ * The next few expiries of each cycle, soonest first, each date listed once under its longest cycle.
+ */
+export function upcomingExpiries(now: number): Expiry[] {
+  const byTimestamp = new Map<number, Expiry>();
+  for (const kind of Object.keys(EXPIRY_KINDS) as ExpiryKind[]) {
+    let timestamp = now;
+    for (let i = 0; i < EXPIRY_KINDS[kind].count; i++) {
+      timestamp = nextExpiry(kind, timestamp);
+      byTimestamp.set(timestamp, { timestamp, kind: expiryKind(timestamp)!, code: expiryCode(timestamp) });
+    }
+  }
+  return [...byTimestamp.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
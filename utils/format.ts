@@ -0,0 +1,11 @@
+// --- FORMATTING ---
+
+/**
+ * A horizon in minutes as the largest whole unit that reads naturally: 45m, 1.5h, 3d, 2w.
+ */
+export const formatHorizon = (minutes: number) => {
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  if (minutes < 1440) return `${+(minutes / 60).toFixed(1)}h`;
+  if (minutes < 10080) return `${+(minutes / 1440).toFixed(1)}d`;
+  return `${+(minutes / 10080).toFixed(1)}w`;
+};
@@ -0,0 +1,53 @@
+// --- PROBABILITY HEATMAP ---
+// P(Sₜ beyond K) over a grid of strikes × horizons, built in a worker since the
+// fat-tailed models evaluate a mixture per cell.
+
+import { ProbabilityGrid } from '../types';
+import { gbmDistribution, mertonDistribution, studentTDistribution, MertonParams, ModelKind } from './distributions';
+
+export interface HeatmapParams {
+  spot: number;
+  mu: number;             // Annualized drift (decimal)
+  sigma: number;          // Annualized volatility (decimal)
+  modelKind: ModelKind;
+  mertonParams: MertonParams;
+  studentDf: number;
+  horizons: number[];     // Minutes, ascending
+  strikesPerSide: number;
+  priceDecimals: number;
+}
+
+const MINUTES_PER_YEAR = 525600;
+
+/**
+ * Strikes spread cubically in log-moneyness, so the inner rows resolve minutes and
+ * the outer rows reach ±2.5σ at the longest horizon.
+ */
+export function probabilityGrid(params: HeatmapParams): ProbabilityGrid {
+  const { spot, mu, sigma, modelKind, mertonParams, studentDf, horizons, strikesPerSide, priceDecimals } = params;
+  const maxMove = 2.5 * sigma * Math.sqrt(horizons[horizons.length - 1] / MINUTES_PER_YEAR);
+  const step = 10 ** Math.max(-priceDecimals, Math.floor(Math.log10(spot)) - 3);
+  const strikes = new Set<number>();
+  for (let i = strikesPerSide; i >= -strikesPerSide; i--) {
+    if (i === 0) continue;
+    const k = maxMove * (i / strikesPerSide) ** 3;
+    const strike = +(Math.round((spot * Math.exp(k)) / step) * step).toFixed(priceDecimals);
+    if (strike !== spot) strikes.add(strike);
+  }
+  const dists = horizons.map(m => {
+    const t = m / MINUTES_PER_YEAR;
+    if (modelKind === 'merton') return mertonDistribution(mu, sigma, t, mertonParams);
+    if (modelKind === 'studentT') return studentTDistribution(mu, sigma, t, studentDf);
+    return gbmDistribution(mu, sigma, t);
+  });
+  const rows = [...strikes];
+  return {
+    spot,
+    strikes: rows,
+    horizons,
+    cells: rows.map(K => dists.map(dist => {
+      const cdf = dist.cdf(Math.log(K / spot));
+      return K > spot ? 1 - cdf : cdf;
+    })),
+  };
+}
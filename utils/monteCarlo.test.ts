@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { gbmTerminal } from '../quant/gbm';
+import { simulateGbm, SimulationParams } from './monteCarlo';
+
+const params: SimulationParams = { S: 3000, K: 3050, sigma: 0.6, mu: 0, t_years: 1 / 365, paths: 2000, steps: 40, seed: 7, samplePaths: 5 };
+
+describe('simulateGbm', () => {
+  it('reproduces a run from its seed', () => {
+    const a = simulateGbm(params);
+    const b = simulateGbm(params);
+    expect(b.terminal).toEqual(a.terminal);
+    expect(b.touch).toEqual(a.touch);
+    expect(b.samples).toEqual(a.samples);
+    expect(simulateGbm({ ...params, seed: 8 }).samples).not.toEqual(a.samples);
+  });
+
+  it('brackets the closed-form terminal probability', () => {
+    const { terminal } = simulateGbm({ ...params, paths: 20000 });
+    const exact = gbmTerminal(params.S, params.K, params.mu, params.sigma, params.t_years).pAbove;
+    expect(terminal.lower).toBeLessThan(exact);
+    expect(terminal.upper).toBeGreaterThan(exact);
+  });
+});
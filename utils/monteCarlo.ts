@@ -0,0 +1,138 @@
+// --- MONTE CARLO ENGINE ---
+// Framework-free so it can run inside a Web Worker or a test harness.
+
+export interface SimulationParams {
+  S: number;           // Spot price
+  K: number;           // Target / barrier
+  sigma: number;       // Annualized volatility (decimal)
+  mu: number;          // Annualized drift (decimal)
+  t_years: number;     // Horizon
+  paths: number;       // Number of simulated paths
+  steps: number;       // Time steps per path
+  seed: number;        // RNG seed for reproducible runs
+  samplePaths: number; // How many paths to return for plotting
+}
+
+export interface ProbabilityEstimate {
+  probability: number;
+  lower: number; // 95% Wilson interval
+  upper: number;
+}
+
+export interface SimulationResult {
+  params: SimulationParams;
+  terminal: ProbabilityEstimate;
+  touch: ProbabilityEstimate;
+  meanTerminal: number;
+  // samples[p][i] = price of sample path p at step i (i = 0 is S)
+  samples: number[][];
+  elapsedMs: number;
+}
+
+/**
+ * Mulberry32: tiny 32-bit seedable PRNG returning floats in [0, 1).
+ */
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sampler (Box-Muller), caching the second variate.
+ */
+export function createNormalSampler(rng: () => number): () => number {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const z = spare;
+      spare = null;
+      return z;
+    }
+    let u = 0;
+    while (u === 0) u = rng();
+    const v = rng();
+    const r = Math.sqrt(-2 * Math.log(u));
+    spare = r * Math.sin(2 * Math.PI * v);
+    return r * Math.cos(2 * Math.PI * v);
+  };
+}
+
+/**
+ * Wilson score interval for a binomial proportion (z = 1.96 → 95%).
+ */
+function wilsonInterval(hits: number, n: number, z = 1.96): ProbabilityEstimate {
+  const p = hits / n;
+  const z2 = z * z;
+  const denom = 1 + z2 / n;
+  const centre = (p + z2 / (2 * n)) / denom;
+  const half = (z * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n))) / denom;
+  return { probability: p, lower: Math.max(0, centre - half), upper: Math.min(1, centre + half) };
+}
+
+/**
+ * Simulates GBM paths with exact log-space increments.
+ * Touch detection between grid points uses the Brownian bridge crossing
+ * probability exp(-2(b - x₁)(b - x₂) / σ²Δt) so coarse grids don't undercount hits.
+ */
+export function simulateGbm(params: SimulationParams): SimulationResult {
+  const started = Date.now();
+  const { S, K, sigma, mu, t_years, paths, steps, seed, samplePaths } = params;
+
+  const rng = createRng(seed);
+  const normal = createNormalSampler(rng);
+
+  const dt = t_years / steps;
+  const drift = (mu - 0.5 * sigma * sigma) * dt;
+  const diffusion = sigma * Math.sqrt(dt);
+  const variance = diffusion * diffusion;
+  const b = Math.log(K / S);
+  const isAbove = K > S;
+
+  let terminalHits = 0;
+  let touchHits = 0;
+  let terminalSum = 0;
+  const samples: number[][] = [];
+
+  for (let p = 0; p < paths; p++) {
+    const keep = p < samplePaths;
+    const sample = keep ? [S] : null;
+    let x = 0;
+    let touched = b === 0;
+
+    for (let i = 0; i < steps; i++) {
+      const prev = x;
+      x += drift + diffusion * normal();
+      if (sample) sample.push(S * Math.exp(x));
+
+      if (!touched) {
+        const crossed = isAbove ? x >= b : x <= b;
+        if (crossed) {
+          touched = true;
+        } else if (variance > 0 && rng() < Math.exp((-2 * (b - prev) * (b - x)) / variance)) {
+          touched = true;
+        }
+      }
+    }
+
+    const terminal = S * Math.exp(x);
+    terminalSum += terminal;
+    if (isAbove ? terminal > K : terminal < K) terminalHits++;
+    if (touched) touchHits++;
+    if (sample) samples.push(sample);
+  }
+
+  return {
+    params,
+    terminal: wilsonInterval(terminalHits, paths),
+    touch: wilsonInterval(touchHits, paths),
+    meanTerminal: terminalSum / paths,
+    samples,
+    elapsedMs: Date.now() - started,
+  };
+}
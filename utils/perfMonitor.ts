@@ -0,0 +1,73 @@
+// --- PERFORMANCE MONITOR ---
+// Counters for the perf HUD. Updated from the feed and the render cycle without
+// touching React state, and sampled by the HUD once a second.
+
+export interface PerfStats {
+  ticksPerSec: number;
+  flushesPerSec: number; // Batched UI updates
+  renderMs: number;      // Mean time from a flush to its commit
+  maxRenderMs: number;
+  droppedFrames: number; // In the last sample window
+}
+
+export interface PerfMonitor {
+  tick: () => void;
+  flush: () => void;
+  commit: () => void;
+  watchFrames: () => () => void; // Starts the frame watcher, returns its stop function
+  sample: () => PerfStats;
+}
+
+const FRAME_MS = 1000 / 60;
+
+export function createPerfMonitor(): PerfMonitor {
+  let ticks = 0;
+  let flushes = 0;
+  let dropped = 0;
+  let renders: number[] = [];
+  let pendingFlush: number | null = null;
+  let sampledAt = performance.now();
+
+  return {
+    tick: () => {
+      ticks++;
+    },
+    flush: () => {
+      flushes++;
+      pendingFlush ??= performance.now();
+    },
+    commit: () => {
+      if (pendingFlush === null) return;
+      renders.push(performance.now() - pendingFlush);
+      pendingFlush = null;
+    },
+    watchFrames: () => {
+      let last = performance.now();
+      let frame = requestAnimationFrame(function loop(now) {
+        const gap = now - last;
+        last = now;
+        // Gaps over a second are a backgrounded tab, not jank
+        if (gap > 1.5 * FRAME_MS && gap < 1000) dropped += Math.round(gap / FRAME_MS) - 1;
+        frame = requestAnimationFrame(loop);
+      });
+      return () => cancelAnimationFrame(frame);
+    },
+    sample: () => {
+      const now = performance.now();
+      const seconds = Math.max((now - sampledAt) / 1000, 1e-3);
+      const stats = {
+        ticksPerSec: ticks / seconds,
+        flushesPerSec: flushes / seconds,
+        renderMs: renders.length > 0 ? renders.reduce((a, b) => a + b, 0) / renders.length : 0,
+        maxRenderMs: renders.length > 0 ? Math.max(...renders) : 0,
+        droppedFrames: dropped,
+      };
+      ticks = 0;
+      flushes = 0;
+      dropped = 0;
+      renders = [];
+      sampledAt = now;
+      return stats;
+    },
+  };
+}
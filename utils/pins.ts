@@ -0,0 +1,98 @@
+import { ChartPoint, HistoryPoint } from '../types';
+
+// --- PINNED FORECASTS ---
+// A forecast frozen at the moment of pinning, kept on the chart while the
+// realized price walks into it and scored in σ terms once its horizon passes.
+
+export type PinStatus = 'live' | 'landed' | 'missed';
+
+export type PinnedCone = Pick<ChartPoint, 'timestamp' | 'mean' | 'sigma1' | 'sigma2' | 'sigma3'>;
+
+export interface PinnedForecast {
+  id: string;
+  asset: string;
+  pinnedAt: number;
+  expiresAt: number;
+  S: number;                      // Spot at pin time
+  target: number | null;          // K in single-target mode
+  range: [number, number] | null; // [L, U] in range mode
+  direction: 'above' | 'below' | 'inside';
+  probability: number;            // Forecast P of the target event
+  sigma: number;
+  nu: number;                     // Drift of log price, μ - σ²/2
+  model: string;                  // Distribution label
+  cone: PinnedCone[];             // Frozen mean and 1–3σ bands, pinnedAt → expiresAt
+  path: [number, number][];       // Sampled realized [timestamp, price]
+  color: string;
+  hidden?: boolean;               // Left off the chart
+  status: PinStatus;
+  realizedAt?: number;
+  realizedPrice?: number;
+  zScore?: number;                // (ln(S_T / S₀) - νt) / (σ√t)
+  band?: 1 | 2 | 3 | 4;           // Innermost frozen band holding S_T; 4 = outside 3σ
+  hit?: boolean;                  // The target event happened
+}
+
+export const PIN_COLORS = ['#f472b6', '#facc15', '#34d399', '#fb923c', '#22d3ee'];
+
+// First colour no live pin is using, cycling only once all are taken
+export const nextPinColor = (pins: PinnedForecast[]) =>
+  PIN_COLORS.find(c => !pins.some(p => p.status === 'live' && p.color === c)) ?? PIN_COLORS[pins.length % PIN_COLORS.length];
+
+// Samples kept per realized path, spread over the horizon
+const PATH_SAMPLES = 240;
+
+// Trades later than this after expiry don't count as the landing (e.g. the tab was closed)
+export const PIN_GRACE_MS = 60 * 1000;
+
+/**
+ * Innermost band of the frozen cone's final slice that contains the price.
+ */
+export function landingBand(cone: PinnedCone[], price: number): 1 | 2 | 3 | 4 {
+  const last = cone[cone.length - 1];
+  const bands = [last?.sigma1, last?.sigma2, last?.sigma3];
+  const i = bands.findIndex(b => b !== undefined && price >= b[0] && price <= b[1]);
+  return i === -1 ? 4 : ((i + 1) as 1 | 2 | 3);
+}
+
+const isHit = (pin: PinnedForecast, price: number) => {
+  if (pin.range) return price > pin.range[0] && price < pin.range[1];
+  return pin.direction === 'above' ? price > pin.target! : price < pin.target!;
+};
+
+/**
+ * Samples the asset's last trade into its live pins (thinned to PATH_SAMPLES per horizon)
+ * and lands any whose horizon has passed. The caller only passes a trade while the feed has
+ * stayed fresh since, so one from before the expiry is still the price at it.
+ * Returns the same array when nothing changed.
+ */
+export function updatePins(pins: PinnedForecast[], asset: string, tick: HistoryPoint, now: number): PinnedForecast[] {
+  const { price } = tick;
+  let changed = false;
+  const next = pins.map(pin => {
+    if (pin.status !== 'live' || pin.asset !== asset) return pin;
+
+    if (now >= pin.expiresAt) {
+      changed = true;
+      if (tick.timestamp - pin.expiresAt > PIN_GRACE_MS) return { ...pin, status: 'missed' as const };
+      const t = (pin.expiresAt - pin.pinnedAt) / (365 * 24 * 60 * 60 * 1000);
+      return {
+        ...pin,
+        status: 'landed' as const,
+        path: [...pin.path, [now, price] as [number, number]],
+        realizedAt: now,
+        realizedPrice: price,
+        zScore: (Math.log(price / pin.S) - pin.nu * t) / (pin.sigma * Math.sqrt(t)),
+        band: landingBand(pin.cone, price),
+        hit: isHit(pin, price),
+      };
+    }
+
+    const spacing = (pin.expiresAt - pin.pinnedAt) / PATH_SAMPLES;
+    const last = pin.path[pin.path.length - 1];
+    if (last && now - last[0] < spacing) return pin;
+    changed = true;
+    return { ...pin, path: [...pin.path, [now, price] as [number, number]] };
+  });
+  return changed ? next : pins;
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { buildPositionFan, exitThroughSpot, shiftPositionFan, PositionFanParams } from './positionFan';
+
+const params: PositionFanParams = {
+  S: 3000,
+  position: { side: 'short', size: 2, entry: 2950, stop: null, takeProfit: null },
+  nu: 0,
+  sigma: 0.6,
+  timeMinutes: 60,
+  steps: 20,
+};
+
+describe('shiftPositionFan', () => {
+  it('tracks a re-solve for a small move of an uncapped position', () => {
+    const shifted = shiftPositionFan(buildPositionFan(params), 3003, 2950);
+    const solved = buildPositionFan({ ...params, S: 3003 });
+    expect(shifted.fan[20].median).toBeCloseTo(solved.fan[20].median, 1);
+    expect(shifted.risk!.var95).toBeCloseTo(solved.risk!.var95, 0);
+  });
+
+  it('leaves a fan with a stop unshifted, since the stop caps it', () => {
+    const capped = buildPositionFan({ ...params, position: { ...params.position, side: 'long', stop: 2900 } });
+    expect(shiftPositionFan(capped, 2920, 2950)).toBe(capped);
+    // Re-solved nearer the stop, the loss is capped at the stop and the stop odds rise
+    const near = buildPositionFan({ ...capped.params, S: 2920 });
+    expect(near.risk!.var99).toBeLessThanOrEqual(2 * (2950 - 2900) + 1e-6);
+    expect(near.risk!.pStop).toBeGreaterThan(capped.risk!.pStop);
+  });
+});
+
+describe('exitThroughSpot', () => {
+  it('flags a level the spot has already passed', () => {
+    expect(exitThroughSpot(2890, { ...params.position, side: 'long', stop: 2900 })).toBe(true);
+    expect(exitThroughSpot(2890, { ...params.position, side: 'short', stop: 2900 })).toBe(false);
+  });
+});
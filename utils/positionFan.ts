@@ -0,0 +1,83 @@
+// --- POSITION P&L FAN ---
+// Risk figures of a position over the horizon and its P&L quantiles at each time slice.
+// Every slice re-solves the barrier problem, so the fan is built in a worker; between
+// rebuilds, a fan without a stop or take-profit is shifted as the spot moves.
+
+import { PnlFanPoint } from '../types';
+import { positionRisk, Position, PositionRisk } from '../quant/risk';
+
+export interface PositionFanParams {
+  S: number;
+  position: Position;  // Entry already resolved
+  nu: number;          // Drift of log price, μ - σ²/2
+  sigma: number;
+  timeMinutes: number;
+  steps: number;       // Time slices after the spot
+}
+
+// The quantile function stays behind in the worker
+export type PositionRiskSummary = Omit<PositionRisk, 'pnlQuantile'>;
+
+export interface PositionFan {
+  params: PositionFanParams;
+  risk: PositionRiskSummary | null; // Null when a level is already through the spot
+  fan: PnlFanPoint[];
+}
+
+const MINUTES_PER_YEAR = 525600;
+
+/**
+ * Marked at the spot now, then widening to the exit distribution at each slice.
+ */
+export function buildPositionFan(params: PositionFanParams): PositionFan {
+  const { S, position, nu, sigma, timeMinutes, steps } = params;
+  const horizonRisk = positionRisk(S, position, nu, sigma, timeMinutes / MINUTES_PER_YEAR);
+  if (!horizonRisk) return { params, risk: null, fan: [] };
+
+  const markPnl = (position.side === 'long' ? 1 : -1) * position.size * (S - position.entry);
+  const fan: PnlFanPoint[] = [{ minutes: 0, median: markPnl, band50: [markPnl, markPnl], band90: [markPnl, markPnl], band98: [markPnl, markPnl] }];
+  for (let i = 1; i <= steps; i++) {
+    const minutes = (i / steps) * timeMinutes;
+    const q = i === steps
+      ? horizonRisk.pnlQuantile
+      : positionRisk(S, position, nu, sigma, minutes / MINUTES_PER_YEAR)!.pnlQuantile;
+    fan.push({ minutes, median: q(0.5), band50: [q(0.25), q(0.75)], band90: [q(0.05), q(0.95)], band98: [q(0.01), q(0.99)] });
+  }
+  const { pnlQuantile, ...risk } = horizonRisk;
+  return { params, risk, fan };
+}
+
+/**
+ * Whether the stop or take-profit is already through the spot (it would have traded).
+ */
+export function exitThroughSpot(S: number, position: Position): boolean {
+  const isLong = position.side === 'long';
+  const lower = isLong ? position.stop : position.takeProfit;
+  const upper = isLong ? position.takeProfit : position.stop;
+  return (lower !== null && lower >= S) || (upper !== null && upper <= S);
+}
+
+/**
+ * A fan solved at one spot and entry, moved to another by the mark-to-market change
+ * instead of re-solving. Close for small moves of an uncapped position; a stop or
+ * take-profit changes the shape with the distance to it, so such fans are returned as is.
+ */
+export function shiftPositionFan(fan: PositionFan, S: number, entry: number): PositionFan {
+  const { position } = fan.params;
+  if (position.stop !== null || position.takeProfit !== null || !fan.risk) return fan;
+  const shift = (position.side === 'long' ? 1 : -1) * position.size * ((S - fan.params.S) - (entry - position.entry));
+  if (shift === 0) return fan;
+  const band = ([lo, hi]: [number, number]): [number, number] => [lo + shift, hi + shift];
+  return {
+    params: fan.params,
+    risk: {
+      ...fan.risk,
+      expectedPnl: fan.risk.expectedPnl + shift,
+      var95: fan.risk.var95 - shift,
+      var99: fan.risk.var99 - shift,
+      es95: fan.risk.es95 - shift,
+      es99: fan.risk.es99 - shift,
+    },
+    fan: fan.fan.map(p => ({ minutes: p.minutes, median: p.median + shift, band50: band(p.band50), band90: band(p.band90), band98: band(p.band98) })),
+  };
+}
@@ -0,0 +1,100 @@
+// --- CONE PROJECTION ---
+// The projected cone in log-return space, relative to the spot. Every band is S·e^x,
+// so a profile is rebuilt (in a worker) only when the model changes; ticks just rescale it.
+
+import { ChartPoint } from '../types';
+import { mertonDistribution, studentTDistribution, MertonParams, ModelKind, SIGMA_TAILS } from './distributions';
+
+export interface ProjectionParams {
+  mu: number;          // Annualized drift (decimal)
+  sigma: number;       // Annualized volatility (decimal)
+  timeMinutes: number;
+  steps: number;       // Time slices after the spot
+  modelKind: ModelKind;
+  mertonParams: MertonParams;
+  studentDf: number;
+}
+
+export interface ConeSlice {
+  minutes: number;
+  mean: number;             // Log return of the centre line (the median)
+  sigma1: [number, number]; // Log-return bounds with 1σ / 2σ / 3σ normal coverage
+  sigma2: [number, number];
+  sigma3: [number, number];
+  gbm?: number[];           // Plain GBM 2σ/3σ edges [l3, l2, u2, u3], fat-tailed models only
+}
+
+export interface ConeProfile {
+  params: ProjectionParams;
+  slices: ConeSlice[];
+}
+
+const MINUTES_PER_YEAR = 525600;
+
+export const sameProjection = (a: ProjectionParams, b: ProjectionParams) =>
+  a.mu === b.mu && a.sigma === b.sigma && a.timeMinutes === b.timeMinutes && a.steps === b.steps &&
+  a.modelKind === b.modelKind && a.studentDf === b.studentDf &&
+  a.mertonParams.lambda === b.mertonParams.lambda && a.mertonParams.jumpMean === b.mertonParams.jumpMean &&
+  a.mertonParams.jumpVol === b.mertonParams.jumpVol;
+
+/**
+ * Median and 1-3σ bands at each slice. GBM bands are νt ± nσ√t; fat-tailed models
+ * take their own quantiles at the same coverage, with the GBM edges kept for comparison.
+ */
+export function projectCone(params: ProjectionParams): ConeProfile {
+  const { mu, sigma, timeMinutes, steps, modelKind, mertonParams, studentDf } = params;
+  const nu = mu - 0.5 * sigma * sigma;
+  const slices: ConeSlice[] = [];
+
+  for (let i = 0; i <= steps; i++) {
+    const minutes = (i / steps) * timeMinutes;
+    const t = minutes / MINUTES_PER_YEAR;
+    const gbmBand = (n: number): [number, number] => [nu * t - n * sigma * Math.sqrt(t), nu * t + n * sigma * Math.sqrt(t)];
+
+    // Bridge slice at the spot
+    if (i === 0) {
+      slices.push({
+        minutes, mean: 0, sigma1: [0, 0], sigma2: [0, 0], sigma3: [0, 0],
+        gbm: modelKind === 'gbm' ? undefined : [0, 0, 0, 0],
+      });
+      continue;
+    }
+
+    if (modelKind === 'gbm') {
+      slices.push({ minutes, mean: nu * t, sigma1: gbmBand(1), sigma2: gbmBand(2), sigma3: gbmBand(3) });
+      continue;
+    }
+
+    const dist = modelKind === 'merton'
+      ? mertonDistribution(mu, sigma, t, mertonParams)
+      : studentTDistribution(mu, sigma, t, studentDf);
+    const band = (tail: number): [number, number] => [dist.quantile(tail), dist.quantile(1 - tail)];
+    const [gbm2, gbm3] = [gbmBand(2), gbmBand(3)];
+    slices.push({
+      minutes,
+      mean: dist.quantile(0.5),
+      sigma1: band(SIGMA_TAILS[0]),
+      sigma2: band(SIGMA_TAILS[1]),
+      sigma3: band(SIGMA_TAILS[2]),
+      gbm: [gbm3[0], gbm2[0], gbm2[1], gbm3[1]],
+    });
+  }
+  return { params, slices };
+}
+
+/**
+ * Chart points for a profile anchored at spot S and time `start`.
+ */
+export function coneToChart(profile: ConeProfile, S: number, start: number): ChartPoint[] {
+  const price = (x: number) => S * Math.exp(x);
+  const band = ([lo, hi]: [number, number]): [number, number] => [price(lo), price(hi)];
+  return profile.slices.map(slice => ({
+    timestamp: start + slice.minutes * 60 * 1000,
+    price: undefined,
+    mean: price(slice.mean),
+    sigma1: band(slice.sigma1),
+    sigma2: band(slice.sigma2),
+    sigma3: band(slice.sigma3),
+    gbm: slice.gbm?.map(price),
+  }));
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { decodeScenario, encodeScenario, sanitizeScenario, DEFAULT_SCENARIO, Scenario } from './scenario';
+
+describe('scenario codec', () => {
+  it('round-trips every field through the query string', () => {
+    const scenario: Scenario = {
+      ...DEFAULT_SCENARIO,
+      targetMode: 'range',
+      rangeLower: 2950.5,
+      rangeUpper: 3100,
+      timeMinutes: 240,
+      modelKind: 'merton',
+      mertonParams: { ...DEFAULT_SCENARIO.mertonParams, lambda: 12 },
+      mcSeed: -42,
+    };
+    expect(decodeScenario(encodeScenario(scenario))).toEqual(scenario);
+  });
+
+  it('drops unknown and out-of-range parameters', () => {
+    const decoded = decodeScenario('t=0&paths=7&model=nope&K=3200&foo=1');
+    expect(decoded).toEqual({ targetPrice: 3200 });
+  });
+});
+
+describe('sanitizeScenario', () => {
+  it('keeps only recognised, valid fields of an untrusted object', () => {
+    expect(sanitizeScenario({ timeMinutes: 60, manualVol: -5, extra: true })).toEqual({ timeMinutes: 60 });
+    expect(sanitizeScenario(null)).toEqual({});
+    expect(sanitizeScenario('t=60')).toEqual({});
+  });
+});
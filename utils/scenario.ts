@@ -0,0 +1,165 @@
+import { DriftSource, HorizonMode, TargetMode, VolSource } from '../types';
+import { ASSETS, AssetId, MARKET_DATA_PROVIDERS, ProviderId } from '../services/marketData';
+import { MertonParams, ModelKind, MODEL_LABELS } from './distributions';
+import { VolEstimator, VOL_ESTIMATORS } from './volatility';
+import { DRIFT_SOURCES } from './drift';
+
+// --- SCENARIOS ---
+// The full set of user inputs behind a forecast, as shared via the URL or saved as a preset.
+
+export interface Scenario {
+  asset: AssetId;
+  provider: ProviderId;
+  targetMode: TargetMode;
+  targetPrice: number;
+  rangeLower: number;
+  rangeUpper: number;
+  timeMinutes: number;
+  horizonMode: HorizonMode;
+  expiry: number;        // Unix ms, 0 until one is picked
+  driftSource: DriftSource;
+  manualDrift: number;   // Annualized %
+  riskFreeRate: number;  // Annualized %
+  driftLookback: number; // Minutes
+  modelKind: ModelKind;
+  mertonParams: MertonParams;
+  studentDf: number;
+  volSource: VolSource;
+  manualVol: number;
+  rvEstimator: VolEstimator;
+  rvIntervalMs: number;
+  rvLookback: number;
+  mcPaths: number;
+  mcSeed: number;
+}
+
+// Longest horizon the controls accept: four weeks
+export const MAX_HORIZON_MINUTES = 4 * 7 * 1440;
+
+export const DEFAULT_SCENARIO: Scenario = {
+  asset: 'ETH',
+  provider: 'binance',
+  targetMode: 'single',
+  targetPrice: 3000,
+  rangeLower: 0,
+  rangeUpper: 0,
+  timeMinutes: 10,
+  horizonMode: 'relative',
+  expiry: 0,
+  driftSource: 'manual',
+  manualDrift: 0,
+  riskFreeRate: 4,
+  driftLookback: 1440,
+  modelKind: 'gbm',
+  mertonParams: { lambda: 20, jumpMean: -0.01, jumpVol: 0.04 },
+  studentDf: 4,
+  volSource: 'live',
+  manualVol: 60,
+  rvEstimator: 'closeToClose',
+  rvIntervalMs: 1000,
+  rvLookback: 60,
+  mcPaths: 5000,
+  mcSeed: 42,
+};
+
+// --- FIELD CODECS ---
+// Each reader accepts either a query-string value or a JSON value and returns
+// undefined for anything out of range, so bad input falls back to defaults.
+
+type Reader<T> = (raw: unknown) => T | undefined;
+
+const toNumber = (raw: unknown) => (typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw);
+
+const oneOf = <T extends string>(values: readonly T[]): Reader<T> =>
+  (raw) => (values.includes(raw as T) ? (raw as T) : undefined);
+
+const numberIn = (min: number, max: number, integer = false): Reader<number> => (raw) => {
+  const n = toNumber(raw);
+  if (typeof n !== 'number' || !Number.isFinite(n) || n < min || n > max) return undefined;
+  return integer ? Math.round(n) : n;
+};
+
+// "λ,m,δ" in the URL, an object in JSON
+const readMerton: Reader<MertonParams> = (raw) => {
+  const parts = typeof raw === 'string' ? raw.split(',') : raw && typeof raw === 'object' ? raw as Record<string, unknown> : null;
+  if (!parts) return undefined;
+  const [lambda, jumpMean, jumpVol] = Array.isArray(parts)
+    ? parts.map(toNumber)
+    : [parts.lambda, parts.jumpMean, parts.jumpVol];
+  const params = {
+    lambda: numberIn(0, 1000)(lambda),
+    jumpMean: numberIn(-1, 1)(jumpMean),
+    jumpVol: numberIn(0, 1)(jumpVol),
+  };
+  return params.lambda !== undefined && params.jumpMean !== undefined && params.jumpVol !== undefined
+    ? (params as MertonParams)
+    : undefined;
+};
+
+const FIELDS: { [K in keyof Scenario]: { param: string; read: Reader<Scenario[K]>; write?: (v: Scenario[K]) => string } } = {
+  asset: { param: 'asset', read: oneOf(Object.keys(ASSETS) as AssetId[]) },
+  provider: { param: 'venue', read: oneOf(Object.keys(MARKET_DATA_PROVIDERS) as ProviderId[]) },
+  targetMode: { param: 'mode', read: oneOf<TargetMode>(['single', 'range']) },
+  targetPrice: { param: 'K', read: numberIn(Number.MIN_VALUE, Infinity) },
+  rangeLower: { param: 'L', read: numberIn(0, Infinity) },
+  rangeUpper: { param: 'U', read: numberIn(0, Infinity) },
+  timeMinutes: { param: 't', read: numberIn(1, MAX_HORIZON_MINUTES, true) },
+  horizonMode: { param: 'hz', read: oneOf<HorizonMode>(['relative', 'expiry']) },
+  expiry: { param: 'exp', read: numberIn(0, 8.64e15, true) },
+  driftSource: { param: 'drift', read: oneOf(Object.keys(DRIFT_SOURCES) as DriftSource[]) },
+  manualDrift: { param: 'mu', read: numberIn(-10000, 10000) },
+  riskFreeRate: { param: 'r', read: numberIn(-100, 100) },
+  driftLookback: { param: 'muN', read: numberIn(10, 43200, true) },
+  modelKind: { param: 'model', read: oneOf(Object.keys(MODEL_LABELS) as ModelKind[]) },
+  mertonParams: { param: 'jumps', read: readMerton, write: (p) => `${p.lambda},${p.jumpMean},${p.jumpVol}` },
+  studentDf: { param: 'df', read: numberIn(2.1, 100) },
+  volSource: { param: 'vol', read: oneOf<VolSource>(['live', 'realized', 'manual']) },
+  manualVol: { param: 'sigma', read: numberIn(Number.MIN_VALUE, 1000) },
+  rvEstimator: { param: 'rv', read: oneOf(Object.keys(VOL_ESTIMATORS) as VolEstimator[]) },
+  rvIntervalMs: { param: 'rvBar', read: numberIn(1000, 3600000, true) },
+  rvLookback: { param: 'rvN', read: numberIn(2, 10000, true) },
+  mcPaths: { param: 'paths', read: numberIn(100, 50000, true) },
+  mcSeed: { param: 'seed', read: numberIn(-2147483648, 2147483647, true) },
+};
+
+const SCENARIO_KEYS = Object.keys(FIELDS) as (keyof Scenario)[];
+
+/**
+ * Keeps only the recognised, in-range fields of an untrusted object (e.g. an imported preset).
+ */
+export function sanitizeScenario(raw: unknown): Partial<Scenario> {
+  if (!raw || typeof raw !== 'object') return {};
+  const source = raw as Record<string, unknown>;
+  const out: Partial<Record<keyof Scenario, unknown>> = {};
+  for (const key of SCENARIO_KEYS) {
+    const value = FIELDS[key].read(source[key]);
+    if (value !== undefined) out[key] = value;
+  }
+  return out as Partial<Scenario>;
+}
+
+/**
+ * Serializes a scenario to a query string (without the leading "?").
+ */
+export function encodeScenario(scenario: Scenario): string {
+  const params = new URLSearchParams();
+  for (const key of SCENARIO_KEYS) {
+    const field = FIELDS[key] as { param: string; write?: (v: unknown) => string };
+    const value = scenario[key];
+    params.set(field.param, field.write ? field.write(value) : String(value));
+  }
+  return params.toString();
+}
+
+/**
+ * Reads whatever scenario fields a query string carries; unknown or invalid ones are dropped.
+ */
+export function decodeScenario(search: string): Partial<Scenario> {
+  const params = new URLSearchParams(search);
+  const raw: Record<string, string> = {};
+  for (const key of SCENARIO_KEYS) {
+    const value = params.get(FIELDS[key].param);
+    if (value !== null) raw[key] = value;
+  }
+  return sanitizeScenario(raw);
+}
@@ -0,0 +1,46 @@
+// --- TICK BATCHING ---
+// Busy markets print hundreds of trades a second, but the UI only needs them once
+// per frame (or per chosen interval). Ticks are queued and handed over in one batch.
+
+export type TickFlushInterval = 'frame' | number; // Animation frame, or ms
+
+export interface TickBatcher<T> {
+  push: (item: T) => void;
+  flush: () => void; // Applies anything still queued right away
+}
+
+// Animation frames pause in background tabs; keep draining at this pace there
+const HIDDEN_FLUSH_MS = 1000;
+
+export function createTickBatcher<T>(interval: () => TickFlushInterval, flush: (items: T[]) => void): TickBatcher<T> {
+  let queue: T[] = [];
+  let frame: number | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const run = () => {
+    frame = null;
+    timer = null;
+    const items = queue;
+    queue = [];
+    if (items.length > 0) flush(items);
+  };
+
+  const schedule = () => {
+    if (frame !== null || timer !== null) return;
+    const every = interval();
+    if (every === 'frame' && !document.hidden) frame = requestAnimationFrame(run);
+    else timer = setTimeout(run, every === 'frame' ? HIDDEN_FLUSH_MS : every);
+  };
+
+  return {
+    push: (item) => {
+      queue.push(item);
+      schedule();
+    },
+    flush: () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      if (timer !== null) clearTimeout(timer);
+      run();
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import { Candle } from '../types';
+
+// --- REALIZED VOLATILITY ---
+
+export type VolEstimator = 'closeToClose' | 'ewma' | 'parkinson' | 'garmanKlass';
+
+export const VOL_ESTIMATORS: Record<VolEstimator, { label: string; formula: string }> = {
+  closeToClose: { label: 'Close-to-Close', formula: 'σ² = Σ(rᵢ - r̄)² / (n - 1),  rᵢ = ln(Cᵢ / Cᵢ₋₁) / √Δtᵢ' },
+  ewma: { label: 'EWMA (λ = 0.94)', formula: 'σᵢ² = λσᵢ₋₁² + (1 - λ)rᵢ²,  rᵢ = ln(Cᵢ / Cᵢ₋₁) / √Δtᵢ' },
+  parkinson: { label: 'Parkinson', formula: 'σ² = Σ ln(Hᵢ / Lᵢ)² / (4n ln 2)' },
+  garmanKlass: { label: 'Garman-Klass', formula: 'σ² = Σ [½ln(H/L)² - (2ln2 - 1)ln(C/O)²] / n' },
+};
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+const EWMA_LAMBDA = 0.94;
+
+/**
+ * Per-bar variance of log returns for the chosen estimator, or null when the
+ * sample is too small to say anything.
+ */
+function barVariance(candles: Candle[], estimator: VolEstimator, intervalMs: number): number | null {
+  if (estimator === 'parkinson' || estimator === 'garmanKlass') {
+    if (candles.length < 2) return null;
+    const sum = candles.reduce((acc, c) => {
+      const hl = Math.log(c.high / c.low);
+      if (estimator === 'parkinson') return acc + hl * hl;
+      const co = Math.log(c.close / c.open);
+      return acc + 0.5 * hl * hl - (2 * Math.LN2 - 1) * co * co;
+    }, 0);
+    const n = candles.length;
+    return estimator === 'parkinson' ? sum / (4 * n * Math.LN2) : Math.max(0, sum / n);
+  }
+
+  const returns: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    // Bars without trades are skipped, so a return can span several; Δt in bars scales it back to one
+    const bars = Math.max(1, (candles[i].timestamp - candles[i - 1].timestamp) / intervalMs);
+    returns.push(Math.log(candles[i].close / candles[i - 1].close) / Math.sqrt(bars));
+  }
+  if (returns.length < 2) return null;
+
+  if (estimator === 'ewma') {
+    return returns.reduce((v, r, i) => (i === 0 ? r * r : EWMA_LAMBDA * v + (1 - EWMA_LAMBDA) * r * r), 0);
+  }
+
+  const mean = returns.reduce((a, r) => a + r, 0) / returns.length;
+  return returns.reduce((a, r) => a + (r - mean) ** 2, 0) / (returns.length - 1);
+}
+
+/**
+ * Annualized realized volatility (decimal) over the most recent `lookback` bars: that many
+ * returns (so one more close) for the return estimators, that many ranges for the others.
+ */
+export function realizedVolatility(
+  candles: Candle[],
+  estimator: VolEstimator,
+  intervalMs: number,
+  lookback: number
+): number | null {
+  const isRange = estimator === 'parkinson' || estimator === 'garmanKlass';
+  const window = candles.slice(-(isRange ? lookback : lookback + 1));
+  const variance = barVariance(window, estimator, intervalMs);
+  if (variance === null) return null;
+  return Math.sqrt(variance * (MS_PER_YEAR / intervalMs));
+}
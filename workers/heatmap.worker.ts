@@ -0,0 +1,21 @@
+import { probabilityGrid, HeatmapParams } from '../utils/heatmap';
+import { ProbabilityGrid } from '../types';
+
+export interface HeatmapRequest {
+  id: number;
+  params: HeatmapParams;
+}
+
+export type HeatmapResponse =
+  | { id: number; grid: ProbabilityGrid }
+  | { id: number; error: string };
+
+self.onmessage = (event: MessageEvent<HeatmapRequest>) => {
+  const { id, params } = event.data;
+  try {
+    const grid = probabilityGrid(params);
+    self.postMessage({ id, grid } satisfies HeatmapResponse);
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) } satisfies HeatmapResponse);
+  }
+};
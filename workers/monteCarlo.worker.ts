@@ -0,0 +1,20 @@
+import { simulateGbm, SimulationParams, SimulationResult } from '../utils/monteCarlo';
+
+export interface SimulationRequest {
+  id: number;
+  params: SimulationParams;
+}
+
+export type SimulationResponse =
+  | { id: number; result: SimulationResult }
+  | { id: number; error: string };
+
+self.onmessage = (event: MessageEvent<SimulationRequest>) => {
+  const { id, params } = event.data;
+  try {
+    const result = simulateGbm(params);
+    self.postMessage({ id, result } satisfies SimulationResponse);
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) } satisfies SimulationResponse);
+  }
+};
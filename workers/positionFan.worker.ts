@@ -0,0 +1,20 @@
+import { buildPositionFan, PositionFanParams, PositionFan } from '../utils/positionFan';
+
+export interface PositionFanRequest {
+  id: number;
+  params: PositionFanParams;
+}
+
+export type PositionFanResponse =
+  | { id: number; fan: PositionFan }
+  | { id: number; error: string };
+
+self.onmessage = (event: MessageEvent<PositionFanRequest>) => {
+  const { id, params } = event.data;
+  try {
+    const fan = buildPositionFan(params);
+    self.postMessage({ id, fan } satisfies PositionFanResponse);
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) } satisfies PositionFanResponse);
+  }
+};
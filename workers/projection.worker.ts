@@ -0,0 +1,20 @@
+import { projectCone, ProjectionParams, ConeProfile } from '../utils/projection';
+
+export interface ProjectionRequest {
+  id: number;
+  params: ProjectionParams;
+}
+
+export type ProjectionResponse =
+  | { id: number; profile: ConeProfile }
+  | { id: number; error: string };
+
+self.onmessage = (event: MessageEvent<ProjectionRequest>) => {
+  const { id, params } = event.data;
+  try {
+    const profile = projectCone(params);
+    self.postMessage({ id, profile } satisfies ProjectionResponse);
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) } satisfies ProjectionResponse);
+  }
+};